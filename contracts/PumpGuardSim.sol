@@ -0,0 +1,94 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Buy/sell simulator for Uniswap V2 style routers (Uniswap V2, PancakeSwap V2).
+// Never deployed: lib/honeypot.ts injects the runtime bytecode at a throwaway
+// address with eth_call state overrides and calls simulate() with some ETH/BNB.
+//
+// Rebuild after edits and paste the runtime bytecode into SIM_RUNTIME_BYTECODE.
+// Target paris (no PUSH0) so it also runs on nodes/chains without Shanghai:
+//   solc --optimize --optimize-runs 200 --evm-version paris --bin-runtime contracts/PumpGuardSim.sol
+
+interface IERC20Min {
+    function balanceOf(address) external view returns (uint256);
+}
+
+interface IV2Router {
+    function WETH() external view returns (address);
+
+    function getAmountsOut(uint256 amountIn, address[] calldata path) external view returns (uint256[] memory);
+
+    function swapExactETHForTokensSupportingFeeOnTransferTokens(
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external payable;
+
+    function swapExactTokensForETHSupportingFeeOnTransferTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external;
+}
+
+contract PumpGuardSim {
+    // status codes
+    uint8 constant OK = 0;
+    uint8 constant NO_POOL = 1;
+    uint8 constant BUY_FAILED = 2;
+    uint8 constant APPROVE_FAILED = 3;
+    uint8 constant SELL_FAILED = 4;
+
+    receive() external payable {}
+
+    function simulate(address router, address token)
+        external
+        payable
+        returns (uint256 buyExpected, uint256 buyReceived, uint256 sellExpected, uint256 sellReceived, uint8 status)
+    {
+        IV2Router r = IV2Router(router);
+        address weth = r.WETH();
+
+        address[] memory path = new address[](2);
+        path[0] = weth;
+        path[1] = token;
+
+        try r.getAmountsOut(msg.value, path) returns (uint256[] memory amounts) {
+            buyExpected = amounts[1];
+        } catch {
+            return (0, 0, 0, 0, NO_POOL);
+        }
+
+        uint256 tokenBefore = IERC20Min(token).balanceOf(address(this));
+        try r.swapExactETHForTokensSupportingFeeOnTransferTokens{value: msg.value}(0, path, address(this), block.timestamp) {
+        } catch {
+            return (buyExpected, 0, 0, 0, BUY_FAILED);
+        }
+        buyReceived = IERC20Min(token).balanceOf(address(this)) - tokenBefore;
+        if (buyReceived == 0) return (buyExpected, 0, 0, 0, BUY_FAILED);
+
+        // low-level: some tokens (USDT style) return nothing from approve()
+        (bool approved, ) = token.call(abi.encodeWithSignature("approve(address,uint256)", router, buyReceived));
+        if (!approved) return (buyExpected, buyReceived, 0, 0, APPROVE_FAILED);
+
+        path[0] = token;
+        path[1] = weth;
+
+        try r.getAmountsOut(buyReceived, path) returns (uint256[] memory amounts) {
+            sellExpected = amounts[1];
+        } catch {
+            return (buyExpected, buyReceived, 0, 0, SELL_FAILED);
+        }
+
+        uint256 ethBefore = address(this).balance;
+        try r.swapExactTokensForETHSupportingFeeOnTransferTokens(buyReceived, 0, path, address(this), block.timestamp) {
+        } catch {
+            return (buyExpected, buyReceived, sellExpected, 0, SELL_FAILED);
+        }
+        sellReceived = address(this).balance - ethBefore;
+        status = OK;
+    }
+}
@@ -0,0 +1,29 @@
+// lib/async.ts
+// Small promise helpers shared by the scoring pipelines, the bot and the background jobs.
+
+/** Rejects with Error("timeout") after `ms`; the underlying work is not cancelled. */
+export function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const t = setTimeout(() => reject(new Error("timeout")), ms);
+    p.then((v) => {
+      clearTimeout(t);
+      resolve(v);
+    }).catch((e) => {
+      clearTimeout(t);
+      reject(e);
+    });
+  });
+}
+
+/** Runs `fn` over `items` with at most `n` in flight. */
+export async function mapLimit<T>(items: T[], n: number, fn: (x: T) => Promise<void>) {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await fn(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(n, items.length) }, worker));
+}
+
+export function sleep(ms: number) {
+  return new Promise<void>((r) => setTimeout(r, ms));
+}
@@ -0,0 +1,367 @@
+// lib/backtest.ts
+// Backtesting: scores labelled tokens through the risk model (and any alternative weight configurations) and reports
+// per-signal precision, recall and lift plus ROC/AUC of the score. Under PROVIDER_MODE=replay each token is re-scored
+// by the live pipeline from the recorded provider responses; otherwise (or when nothing usable was recorded for it)
+// its recorded score / deep snapshots are re-weighted.
+
+import { mapLimit } from "./async";
+import { deepSignals } from "./deep";
+import { fetchFlaggedTargets } from "./flags";
+import { loadHistory, type HistorySignal, type ScoreSnapshot } from "./history";
+import {
+  categorizeSignalId,
+  computeScoreWithCaps,
+  RISK_MODEL,
+  withOverrides,
+  type ModelOverrides,
+  type RiskCategory,
+  type RiskModel,
+} from "./risk";
+import { providerMode, providerNow } from "./recorder";
+import { buildScoreResponse } from "./score";
+import type { Chain, Signal } from "./types";
+
+const REPLAY_CONCURRENCY = 8;
+const MAX_LABELS = 2000;
+const MISSING_LIST_MAX = 100;
+
+export type BacktestLabel = {
+  chain: Chain;
+  address: string;
+  rug: boolean;
+  as_of: number | null; // only snapshots recorded before this (ms) are replayed; flags: the first RUGGED flag
+  source: "flags" | "file";
+};
+
+export type BacktestVariant = ModelOverrides & { name: string };
+
+type Replayed = BacktestLabel & {
+  ts: number;
+  model_version: string | null;
+  signals: HistorySignal[];
+  replay: "providers" | "history"; // re-scored from recorded provider responses, or re-weighted snapshots
+};
+
+export type SignalStats = {
+  id: string;
+  label: string;
+  category: RiskCategory;
+  weight: number; // current model weight
+  present: number;
+  tp: number; // present on rugs
+  fp: number; // present on non-rugs
+  precision: number | null;
+  recall: number | null;
+  lift: number | null; // precision / base rate
+};
+
+export type RocPoint = { threshold: number; tpr: number; fpr: number };
+
+export type LevelStats = { threshold: number; flagged: number; precision: number | null; recall: number | null };
+
+export type ConfigResult = {
+  name: string;
+  model_version: string;
+  auc: number | null;
+  roc: RocPoint[];
+  levels: { HIGH: LevelStats; MEDIUM: LevelStats }; // "flagged" = score at or above the level
+};
+
+export type BacktestReport = {
+  generated_at: number;
+  labels: number;
+  replayed: number;
+  from_providers: number; // of `replayed`: re-scored from recorded provider responses (PROVIDER_MODE=replay)
+  positives: number;
+  negatives: number;
+  base_rate: number | null;
+  missing: string[]; // labelled tokens with neither a usable recording nor a snapshot (first MISSING_LIST_MAX)
+  signals: SignalStats[];
+  configs: ConfigResult[];
+};
+
+const VALID_CHAINS: Chain[] = ["sol", "eth", "bnb"];
+
+function ratio(a: number, b: number) {
+  return b > 0 ? a / b : null;
+}
+
+/* =========================================================
+   Labels
+   ========================================================= */
+
+function parseRug(v: any): boolean | null {
+  const s = String(v ?? "").trim().toLowerCase();
+  if (["rug", "rugged", "scam", "1", "true", "yes"].includes(s)) return true;
+  if (["safe", "trusted", "legit", "ok", "0", "false", "no"].includes(s)) return false;
+  return null;
+}
+
+function parseTs(v: any): number | null {
+  if (v === undefined || v === null || v === "") return null;
+  const n = Number(v);
+  if (Number.isFinite(n)) return n < 1e12 ? n * 1000 : n; // seconds or ms
+  const t = Date.parse(String(v));
+  return Number.isFinite(t) ? t : null;
+}
+
+/**
+ * Imported label file: a JSON array of { chain, address, label, as_of? } or CSV / TSV lines
+ * `chain,address,label[,as_of]` (header optional). Labels: rug/rugged/1 vs safe/trusted/0.
+ */
+export function parseLabelFile(input: string | any[]): { labels: BacktestLabel[]; errors: string[] } {
+  let rows: any[];
+  if (Array.isArray(input)) {
+    rows = input;
+  } else {
+    const text = String(input || "").trim();
+    if (text.startsWith("[")) {
+      try {
+        rows = JSON.parse(text);
+      } catch {
+        return { labels: [], errors: ["Invalid JSON"] };
+      }
+    } else {
+      rows = text
+        .split(/\r?\n/)
+        .map((l) => l.trim())
+        .filter((l) => l && !l.startsWith("#"))
+        .map((l) => {
+          const [chain, address, label, as_of] = l.split(/[,\t;]/).map((x) => x.trim());
+          return { chain, address, label, as_of };
+        })
+        .filter((r, i) => !(i === 0 && r.chain?.toLowerCase() === "chain")); // header
+    }
+  }
+
+  const labels: BacktestLabel[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((r, i) => {
+    const chain = String(r?.chain || "").toLowerCase() as Chain;
+    const address = String(r?.address || "").trim();
+    const rug = parseRug(r?.label ?? r?.rug);
+    if (!VALID_CHAINS.includes(chain) || !address || rug === null) {
+      errors.push(`row ${i + 1}: expected chain (sol|eth|bnb), address, label (rug|safe)`);
+      return;
+    }
+    const key = `${chain}:${chain === "sol" ? address : address.toLowerCase()}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    labels.push({ chain, address, rug, as_of: parseTs(r?.as_of), source: "file" });
+  });
+
+  return { labels: labels.slice(0, MAX_LABELS), errors: errors.slice(0, 50) };
+}
+
+/** Community labels: more RUGGED than TRUSTED flags = rug (replayed as of the first RUGGED flag), the reverse = safe. */
+export async function labelsFromFlags(chain?: Chain): Promise<BacktestLabel[]> {
+  const targets = await fetchFlaggedTargets("token", { chain });
+  if (!targets) throw new Error("Supabase not configured (community flags unavailable)");
+
+  return targets
+    .filter((t) => t.rugged !== t.trusted)
+    .slice(0, MAX_LABELS)
+    .map((t) => ({
+      chain: t.chain,
+      address: t.target_address,
+      rug: t.rugged > t.trusted,
+      as_of: t.rugged > t.trusted ? t.first_rugged_at : null,
+      source: "flags" as const,
+    }));
+}
+
+/* =========================================================
+   Replay
+   ========================================================= */
+
+function latest(snaps: ScoreSnapshot[], kind: ScoreSnapshot["kind"], cut: number) {
+  for (let i = snaps.length - 1; i >= 0; i--) if (snaps[i].kind === kind && snaps[i].ts <= cut) return snaps[i];
+  return null;
+}
+
+// score signals overlaid with deep ones (same id: deep wins)
+function overlay(score: HistorySignal[], deep: HistorySignal[]): HistorySignal[] {
+  const byId = new Map<string, HistorySignal>();
+  score.forEach((s) => byId.set(s.id, s));
+  deep.forEach((s) => byId.set(s.id, s));
+  return Array.from(byId.values());
+}
+
+function compact(signals: Signal[]): HistorySignal[] {
+  return signals.map((s) => ({ id: s.id, weight: s.weight, label: s.label }));
+}
+
+/**
+ * Signals computed now by the live pipeline from recorded provider responses, as of the recording time.
+ * null: not replaying, the recording is from after `as_of`, or nothing was recorded for this token (DEMO).
+ */
+async function replayProviders(l: BacktestLabel): Promise<Replayed | null> {
+  if (providerMode() !== "replay") return null;
+  const now = providerNow();
+  if (l.as_of !== null && now > l.as_of) return null;
+
+  const r = await buildScoreResponse(l.address, l.chain, "token");
+  if (r.risk.mode !== "LIVE") return null;
+  const deep = l.chain === "sol" ? await deepSignals(l.address).catch(() => []) : [];
+
+  return {
+    ...l,
+    ts: now,
+    model_version: r.model_version,
+    signals: overlay(compact(r.signals), compact(deep)),
+    replay: "providers",
+  };
+}
+
+/** Signals as recorded before `as_of`: the last score snapshot, overlaid with the last deep one. */
+async function replayHistory(l: BacktestLabel): Promise<Replayed | null> {
+  // cut in the query: the history is capped to its newest rows, which for a rug are mostly from after as_of
+  const cut = l.as_of ?? Infinity;
+  const snaps = await loadHistory({ chain: l.chain, input_type: "token", address: l.address }, { untilTs: cut });
+  const score = latest(snaps, "score", cut);
+  const deep = latest(snaps, "deep", cut);
+  if (!score && !deep) return null;
+
+  return {
+    ...l,
+    ts: Math.max(score?.ts ?? 0, deep?.ts ?? 0),
+    model_version: score?.model_version ?? deep?.model_version ?? null,
+    signals: overlay(score?.signals ?? [], deep?.signals ?? []),
+    replay: "history",
+  };
+}
+
+async function replayToken(l: BacktestLabel): Promise<Replayed | null> {
+  return (await replayProviders(l).catch(() => null)) ?? replayHistory(l);
+}
+
+/** Score of recorded signals under `model`; dynamic weights keep their recorded share of the model weight. */
+export function scoreUnder(signals: HistorySignal[], model: RiskModel): number {
+  const adjusted = signals.map((s) => {
+    const base = RISK_MODEL.signals[s.id];
+    const def = model.signals[s.id];
+    if (!base?.dynamic || !def || base.weight <= 0) return s;
+    const share = Math.max(0, Math.min(1, (Number(s.weight) || 0) / base.weight));
+    return { ...s, weight: share * def.weight };
+  });
+  return computeScoreWithCaps(adjusted, model);
+}
+
+/* =========================================================
+   Metrics
+   ========================================================= */
+
+function signalStats(tokens: Replayed[], positives: number): SignalStats[] {
+  const baseRate = ratio(positives, tokens.length);
+  const byId = new Map<string, { label: string; tp: number; fp: number }>();
+
+  for (const t of tokens) {
+    for (const s of t.signals) {
+      const e = byId.get(s.id) ?? { label: s.label, tp: 0, fp: 0 };
+      if (t.rug) e.tp++;
+      else e.fp++;
+      byId.set(s.id, e);
+    }
+  }
+
+  return Array.from(byId.entries())
+    .map(([id, e]) => {
+      const precision = ratio(e.tp, e.tp + e.fp);
+      return {
+        id,
+        label: e.label,
+        category: categorizeSignalId(id),
+        weight: RISK_MODEL.signals[id]?.weight ?? 0,
+        present: e.tp + e.fp,
+        tp: e.tp,
+        fp: e.fp,
+        precision,
+        recall: ratio(e.tp, positives),
+        lift: precision !== null && baseRate ? precision / baseRate : null,
+      };
+    })
+    .sort((a, b) => (b.lift ?? -1) - (a.lift ?? -1) || b.present - a.present);
+}
+
+/** ROC over "score >= threshold" (one point per distinct score) and its trapezoid AUC (ties count half). */
+export function rocCurve(scored: { score: number; rug: boolean }[]): { roc: RocPoint[]; auc: number | null } {
+  const P = scored.filter((s) => s.rug).length;
+  const N = scored.length - P;
+  if (!P || !N) return { roc: [], auc: null };
+
+  const thresholds = Array.from(new Set(scored.map((s) => s.score))).sort((a, b) => b - a);
+  const roc: RocPoint[] = [{ threshold: Infinity, tpr: 0, fpr: 0 }];
+  for (const th of thresholds) {
+    const flagged = scored.filter((s) => s.score >= th);
+    const tp = flagged.filter((s) => s.rug).length;
+    roc.push({ threshold: th, tpr: tp / P, fpr: (flagged.length - tp) / N });
+  }
+
+  let auc = 0;
+  for (let i = 1; i < roc.length; i++) auc += ((roc[i].fpr - roc[i - 1].fpr) * (roc[i].tpr + roc[i - 1].tpr)) / 2;
+
+  // Infinity does not survive JSON
+  return { roc: roc.map((p, i) => (i === 0 ? { ...p, threshold: 101 } : p)), auc };
+}
+
+function levelStats(scored: { score: number; rug: boolean }[], threshold: number, positives: number): LevelStats {
+  const flagged = scored.filter((s) => s.score >= threshold);
+  const tp = flagged.filter((s) => s.rug).length;
+  return { threshold, flagged: flagged.length, precision: ratio(tp, flagged.length), recall: ratio(tp, positives) };
+}
+
+function evaluate(name: string, model: RiskModel, tokens: Replayed[], positives: number): ConfigResult {
+  const scored = tokens.map((t) => ({ score: scoreUnder(t.signals, model), rug: t.rug }));
+  const { roc, auc } = rocCurve(scored);
+
+  // a variant with other level thresholds is judged by its own cut-offs
+  return {
+    name,
+    model_version: model.version,
+    auc,
+    roc,
+    levels: {
+      HIGH: levelStats(scored, model.levels.HIGH, positives),
+      MEDIUM: levelStats(scored, model.levels.MEDIUM, positives),
+    },
+  };
+}
+
+/* =========================================================
+   Run
+   ========================================================= */
+
+export async function runBacktest(labels: BacktestLabel[], variants: BacktestVariant[] = []): Promise<BacktestReport> {
+  const tokens: Replayed[] = [];
+  const missing: string[] = [];
+
+  await mapLimit(labels.slice(0, MAX_LABELS), REPLAY_CONCURRENCY, async (l) => {
+    const r = await replayToken(l).catch(() => null);
+    if (r) tokens.push(r);
+    else missing.push(`${l.chain}:${l.address}`);
+  });
+
+  const positives = tokens.filter((t) => t.rug).length;
+  const configs = [
+    evaluate("current", RISK_MODEL, tokens, positives),
+    ...variants.map((v, i) => {
+      const name = v.name || `variant-${i + 1}`;
+      return evaluate(name, withOverrides(RISK_MODEL, v, `${RISK_MODEL.version}+${name}`), tokens, positives);
+    }),
+  ];
+
+  return {
+    generated_at: Date.now(),
+    labels: labels.length,
+    replayed: tokens.length,
+    from_providers: tokens.filter((t) => t.replay === "providers").length,
+    positives,
+    negatives: tokens.length - positives,
+    base_rate: ratio(positives, tokens.length),
+    missing: missing.slice(0, MISSING_LIST_MAX),
+    signals: signalStats(tokens, positives),
+    configs,
+  };
+}
@@ -0,0 +1,482 @@
+// lib/cache.ts
+// Shared cache for routes + providers. One interface, three backends: in-memory LRU (default),
+// SQLite file (node:sqlite, Node >= 22.13) and Redis protocol (Redis / Valkey / Upstash over rediss://).
+// Per-namespace TTL + stale-while-revalidate, entry limits, hit/miss counters.
+
+import fs from "fs";
+import net from "net";
+import path from "path";
+import tls from "tls";
+
+/*
+  CACHE_BACKEND=memory|sqlite|redis     (default memory)
+  CACHE_SQLITE_PATH=.cache/pumpguard.sqlite
+  REDIS_URL=redis://[:password@]host:6379[/db]
+  CACHE_REDIS_TIMEOUT_MS=2000           (per command; a silent server drops the connection and reads as a miss)
+  CACHE_MAX_ENTRIES=1000                (memory LRU size; SQLite row cap)
+  CACHE_MAX_ENTRY_BYTES=2097152         (persistent backends skip larger values)
+  CACHE_TTL_<NS>=seconds, CACHE_STALE_<NS>=seconds   (e.g. CACHE_TTL_SCORE=60)
+*/
+
+export type CacheEntry = { ts: number; value: any; ttl?: number }; // ttl: per-entry fresh window override
+
+export interface CacheBackend {
+  readonly name: string;
+  get(key: string): Promise<CacheEntry | null>;
+  /** `ttlMs`: hard expiry (fresh + stale window). */
+  set(key: string, entry: CacheEntry, ttlMs: number): Promise<void>;
+  del(key: string): Promise<void>;
+  size?(): Promise<number>;
+}
+
+type NamespaceConfig = { ttlMs: number; staleMs: number };
+
+// fresh window, then served stale (and refreshed in the background) for staleMs
+const NAMESPACES: Record<string, NamespaceConfig> = {
+  score: { ttlMs: 120_000, staleMs: 10 * 60_000 },
+  deep: { ttlMs: 120_000, staleMs: 10 * 60_000 },
+  holders: { ttlMs: 10 * 60_000, staleMs: 0 }, // finished counts: never served stale
+  dexscreener: { ttlMs: 7 * 60_000, staleMs: 30 * 60_000 },
+};
+const DEFAULT_NAMESPACE: NamespaceConfig = { ttlMs: 60_000, staleMs: 0 };
+
+const KEY_PREFIX = "pg:";
+
+function envInt(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+const MAX_ENTRIES = envInt("CACHE_MAX_ENTRIES", 1000);
+const MAX_ENTRY_BYTES = envInt("CACHE_MAX_ENTRY_BYTES", 2 * 1024 * 1024);
+
+export function namespaceConfig(ns: string): NamespaceConfig {
+  const base = NAMESPACES[ns] ?? DEFAULT_NAMESPACE;
+  const up = ns.toUpperCase();
+  return {
+    ttlMs: envInt(`CACHE_TTL_${up}`, base.ttlMs / 1000) * 1000,
+    staleMs: envInt(`CACHE_STALE_${up}`, base.staleMs / 1000) * 1000,
+  };
+}
+
+/* =========================================================
+   Memory (LRU)
+   ========================================================= */
+
+class MemoryBackend implements CacheBackend {
+  readonly name = "memory";
+  private map = new Map<string, CacheEntry & { exp: number }>();
+  evictions = 0;
+
+  constructor(private maxEntries: number) {}
+
+  async get(key: string) {
+    const e = this.map.get(key);
+    if (!e) return null;
+    if (e.exp <= Date.now()) {
+      this.map.delete(key);
+      return null;
+    }
+    // refresh recency
+    this.map.delete(key);
+    this.map.set(key, e);
+    return { ts: e.ts, value: e.value, ttl: e.ttl };
+  }
+
+  async set(key: string, entry: CacheEntry, ttlMs: number) {
+    this.map.delete(key);
+    this.map.set(key, { ...entry, exp: Date.now() + ttlMs });
+
+    while (this.map.size > this.maxEntries) {
+      const oldest = this.map.keys().next().value as string;
+      this.map.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  async del(key: string) {
+    this.map.delete(key);
+  }
+
+  async size() {
+    return this.map.size;
+  }
+}
+
+/* =========================================================
+   SQLite (node:sqlite)
+   ========================================================= */
+
+class SqliteBackend implements CacheBackend {
+  readonly name = "sqlite";
+  private db: any;
+  private writes = 0;
+
+  constructor(file: string, private maxEntries: number) {
+    // process.getBuiltinModule is left alone by the bundler (a require / createRequire of node:sqlite is rewritten)
+    const DatabaseSync = (process.getBuiltinModule?.("node:sqlite") as any)?.DatabaseSync;
+    if (!DatabaseSync) throw new Error(`node:sqlite unavailable on Node ${process.versions.node} (needs >= 22.13)`);
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+
+    this.db = new DatabaseSync(file);
+    this.db.exec(
+      "CREATE TABLE IF NOT EXISTS cache (k TEXT PRIMARY KEY, v TEXT NOT NULL, ts INTEGER NOT NULL, ttl INTEGER, exp INTEGER NOT NULL);" +
+        "CREATE INDEX IF NOT EXISTS cache_ts ON cache (ts);"
+    );
+  }
+
+  async get(key: string) {
+    const row = this.db.prepare("SELECT v, ts, ttl FROM cache WHERE k = ? AND exp > ?").get(key, Date.now());
+    return row ? { ts: Number(row.ts), value: JSON.parse(row.v), ttl: row.ttl ?? undefined } : null;
+  }
+
+  async set(key: string, entry: CacheEntry, ttlMs: number) {
+    const v = JSON.stringify(entry.value);
+    if (v === undefined || v.length > MAX_ENTRY_BYTES) return;
+
+    this.db
+      .prepare("INSERT OR REPLACE INTO cache (k, v, ts, ttl, exp) VALUES (?, ?, ?, ?, ?)")
+      .run(key, v, entry.ts, entry.ttl ?? null, Date.now() + ttlMs);
+
+    // prune every 100 writes: expired rows, then oldest beyond the cap
+    if (++this.writes % 100 === 0) {
+      this.db.prepare("DELETE FROM cache WHERE exp <= ?").run(Date.now());
+      this.db
+        .prepare("DELETE FROM cache WHERE k IN (SELECT k FROM cache ORDER BY ts DESC LIMIT -1 OFFSET ?)")
+        .run(this.maxEntries);
+    }
+  }
+
+  async del(key: string) {
+    this.db.prepare("DELETE FROM cache WHERE k = ?").run(key);
+  }
+
+  async size() {
+    return Number(this.db.prepare("SELECT COUNT(*) AS n FROM cache").get().n);
+  }
+}
+
+/* =========================================================
+   Redis protocol (RESP2, minimal client: GET / SET PX / DEL / DBSIZE)
+   ========================================================= */
+
+type Pending = { resolve: (v: any) => void; reject: (e: Error) => void };
+
+const REDIS_TIMEOUT_MS = envInt("CACHE_REDIS_TIMEOUT_MS", 2000);
+
+/** Parse one RESP reply at `off`. Returns null when the buffer is incomplete. */
+function parseResp(buf: Buffer, off: number): { value: any; next: number } | null {
+  const eol = buf.indexOf("\r\n", off);
+  if (eol < 0) return null;
+
+  const type = String.fromCharCode(buf[off]);
+  const line = buf.toString("utf8", off + 1, eol);
+  const next = eol + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, next };
+    case "-":
+      return { value: new Error(line), next };
+    case ":":
+      return { value: Number(line), next };
+    case "$": {
+      const len = Number(line);
+      if (len < 0) return { value: null, next };
+      if (buf.length < next + len + 2) return null;
+      return { value: buf.toString("utf8", next, next + len), next: next + len + 2 };
+    }
+    case "*": {
+      const n = Number(line);
+      if (n < 0) return { value: null, next };
+      const out: any[] = [];
+      let cur = next;
+      for (let i = 0; i < n; i++) {
+        const r = parseResp(buf, cur);
+        if (!r) return null;
+        out.push(r.value);
+        cur = r.next;
+      }
+      return { value: out, next: cur };
+    }
+    default:
+      throw new Error(`RESP: unexpected type byte ${JSON.stringify(type)}`);
+  }
+}
+
+function encodeResp(args: string[]): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const a of args) parts.push(`$${Buffer.byteLength(a)}\r\n${a}\r\n`);
+  return Buffer.from(parts.join(""));
+}
+
+class RedisBackend implements CacheBackend {
+  readonly name = "redis";
+  private sock: net.Socket | null = null;
+  private ready: Promise<void> | null = null;
+  private buf = Buffer.alloc(0);
+  private pending: Pending[] = [];
+
+  constructor(private url: URL) {}
+
+  private connect(): Promise<void> {
+    if (this.ready) return this.ready;
+
+    this.ready = new Promise<void>((resolve, reject) => {
+      const port = Number(this.url.port || 6379);
+      const host = this.url.hostname;
+      const onConnect = () => resolve();
+      const sock =
+        this.url.protocol === "rediss:"
+          ? tls.connect({ host, port, servername: host }, onConnect)
+          : net.connect({ host, port }, onConnect);
+
+      sock.setNoDelay(true);
+      sock.setTimeout(5000, () => sock.destroy(new Error("Redis socket timeout")));
+      sock.on("data", (chunk: Buffer) => this.onData(chunk));
+      sock.on("error", (e) => {
+        reject(e);
+        this.reset(e);
+      });
+      sock.on("close", () => this.reset(new Error("Redis connection closed")));
+      this.sock = sock;
+    }).then(async () => {
+      this.sock?.setTimeout(0);
+      const password = decodeURIComponent(this.url.password || "");
+      const user = decodeURIComponent(this.url.username || "");
+      if (password) await this.send(user ? ["AUTH", user, password] : ["AUTH", password]);
+      const db = this.url.pathname.replace("/", "");
+      if (db) await this.send(["SELECT", db]);
+    });
+
+    return this.ready;
+  }
+
+  private reset(e: Error) {
+    this.sock = null;
+    this.ready = null;
+    this.buf = Buffer.alloc(0);
+    for (const p of this.pending.splice(0)) p.reject(e);
+  }
+
+  private onData(chunk: Buffer) {
+    this.buf = this.buf.length ? Buffer.concat([this.buf, chunk]) : chunk;
+    let off = 0;
+    while (off < this.buf.length) {
+      const r = parseResp(this.buf, off);
+      if (!r) break;
+      off = r.next;
+      const p = this.pending.shift();
+      if (!p) continue;
+      if (r.value instanceof Error) p.reject(r.value);
+      else p.resolve(r.value);
+    }
+    this.buf = this.buf.subarray(off);
+  }
+
+  // replies are matched by order, so a reply that never comes poisons the connection: drop it (every pending
+  // command rejects, the next one reconnects)
+  private send(args: string[]): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const sock = this.sock;
+      if (!sock) return reject(new Error("Redis not connected"));
+      const t = setTimeout(() => sock.destroy(new Error("Redis command timeout")), REDIS_TIMEOUT_MS);
+      this.pending.push({
+        resolve: (v) => {
+          clearTimeout(t);
+          resolve(v);
+        },
+        reject: (e) => {
+          clearTimeout(t);
+          reject(e);
+        },
+      });
+      sock.write(encodeResp(args));
+    });
+  }
+
+  private async command(args: string[]) {
+    await this.connect();
+    return this.send(args);
+  }
+
+  async get(key: string) {
+    const raw = await this.command(["GET", key]);
+    return typeof raw === "string" ? (JSON.parse(raw) as CacheEntry) : null;
+  }
+
+  async set(key: string, entry: CacheEntry, ttlMs: number) {
+    const v = JSON.stringify(entry);
+    if (v === undefined || v.length > MAX_ENTRY_BYTES) return;
+    await this.command(["SET", key, v, "PX", String(Math.max(1, Math.round(ttlMs)))]);
+  }
+
+  async del(key: string) {
+    await this.command(["DEL", key]);
+  }
+
+  async size() {
+    return Number(await this.command(["DBSIZE"]));
+  }
+}
+
+/* =========================================================
+   Backend selection (one per process, survives dev HMR)
+   ========================================================= */
+
+type CacheState = {
+  backend: CacheBackend;
+  fallback_reason?: string;
+  inflight: Map<string, Promise<any>>;
+  counters: Map<string, { hits: number; stale: number; misses: number; sets: number; errors: number }>;
+};
+
+function createState(): CacheState {
+  const kind = String(process.env.CACHE_BACKEND || "memory").toLowerCase();
+  let backend: CacheBackend | null = null;
+  let fallback_reason: string | undefined;
+
+  try {
+    if (kind === "sqlite") {
+      backend = new SqliteBackend(process.env.CACHE_SQLITE_PATH || ".cache/pumpguard.sqlite", MAX_ENTRIES);
+    } else if (kind === "redis") {
+      if (!process.env.REDIS_URL) throw new Error("Missing REDIS_URL");
+      backend = new RedisBackend(new URL(process.env.REDIS_URL));
+    }
+  } catch (e: any) {
+    fallback_reason = `${kind}: ${String(e?.message || e).slice(0, 160)}`;
+  }
+
+  return {
+    backend: backend ?? new MemoryBackend(MAX_ENTRIES),
+    fallback_reason,
+    inflight: new Map(),
+    counters: new Map(),
+  };
+}
+
+function state(): CacheState {
+  const g = globalThis as any;
+  if (!g.__PG_CACHE_STATE) g.__PG_CACHE_STATE = createState();
+  return g.__PG_CACHE_STATE as CacheState;
+}
+
+function counter(ns: string) {
+  const s = state();
+  let c = s.counters.get(ns);
+  if (!c) {
+    c = { hits: 0, stale: 0, misses: 0, sets: 0, errors: 0 };
+    s.counters.set(ns, c);
+  }
+  return c;
+}
+
+/* =========================================================
+   Public API
+   ========================================================= */
+
+export type CacheStatus = "HIT" | "STALE" | "MISS";
+
+export async function cacheGet<T = any>(ns: string, key: string): Promise<{ value: T; stale: boolean } | null> {
+  const cfg = namespaceConfig(ns);
+  let e: CacheEntry | null = null;
+  try {
+    e = await state().backend.get(KEY_PREFIX + ns + ":" + key);
+  } catch {
+    counter(ns).errors++;
+  }
+
+  if (!e) {
+    counter(ns).misses++;
+    return null;
+  }
+
+  const age = Date.now() - e.ts;
+  const ttlMs = e.ttl ?? cfg.ttlMs;
+  if (age <= ttlMs) {
+    counter(ns).hits++;
+    return { value: e.value as T, stale: false };
+  }
+  if (age <= ttlMs + cfg.staleMs) {
+    counter(ns).stale++;
+    return { value: e.value as T, stale: true };
+  }
+  counter(ns).misses++;
+  return null;
+}
+
+export async function cacheSet(ns: string, key: string, value: any, ttlMs?: number): Promise<void> {
+  const cfg = namespaceConfig(ns);
+  try {
+    await state().backend.set(KEY_PREFIX + ns + ":" + key, { ts: Date.now(), value, ttl: ttlMs }, (ttlMs ?? cfg.ttlMs) + cfg.staleMs);
+    counter(ns).sets++;
+  } catch {
+    counter(ns).errors++;
+  }
+}
+
+export async function cacheDel(ns: string, key: string): Promise<void> {
+  try {
+    await state().backend.del(KEY_PREFIX + ns + ":" + key);
+  } catch {
+    counter(ns).errors++;
+  }
+}
+
+/** Load-through with stale-while-revalidate: stale values are returned at once and refreshed in the background. */
+export async function cached<T>(
+  ns: string,
+  key: string,
+  load: () => Promise<T>,
+  opts: { ttlMs?: number } = {}
+): Promise<{ value: T; status: CacheStatus }> {
+  const s = state();
+  const id = ns + ":" + key;
+
+  const refresh = () => {
+    let p = s.inflight.get(id) as Promise<T> | undefined;
+    if (!p) {
+      p = load()
+        .then(async (v) => {
+          await cacheSet(ns, key, v, opts.ttlMs);
+          return v;
+        })
+        .finally(() => s.inflight.delete(id));
+      s.inflight.set(id, p);
+    }
+    return p;
+  };
+
+  const hit = await cacheGet<T>(ns, key);
+  if (hit && !hit.stale) return { value: hit.value, status: "HIT" };
+  if (hit) {
+    refresh().catch(() => {}); // keep serving stale on failure
+    return { value: hit.value, status: "STALE" };
+  }
+
+  return { value: await refresh(), status: "MISS" };
+}
+
+export async function cacheStats() {
+  const s = state();
+  let size: number | null = null;
+  try {
+    size = s.backend.size ? await s.backend.size() : null;
+  } catch {}
+
+  const namespaces: Record<string, any> = {};
+  for (const [ns, c] of s.counters.entries()) {
+    const lookups = c.hits + c.stale + c.misses;
+    namespaces[ns] = { ...c, hit_rate: lookups ? (c.hits + c.stale) / lookups : null, ...namespaceConfig(ns) };
+  }
+
+  return {
+    backend: s.backend.name,
+    fallback_reason: s.fallback_reason ?? null,
+    size,
+    max_entries: MAX_ENTRIES,
+    evictions: s.backend instanceof MemoryBackend ? s.backend.evictions : null,
+    inflight: s.inflight.size,
+    namespaces,
+  };
+}
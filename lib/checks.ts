@@ -0,0 +1,191 @@
+// lib/checks.ts
+// Per-check status and duration for the scoring pipelines, and confidence from coverage: the weighted share of
+// checks that actually ran. A check that timed out or failed is reported as missing instead of scoring as "clean".
+
+import type { Confidence, ScoreResponse } from "./types";
+import { withTimeout } from "./async";
+
+export type CheckStatus = "ok" | "partial" | "skipped" | "timeout" | "error";
+
+export type CheckResult = {
+  id: string;
+  status: CheckStatus;
+  ms: number;
+  weight: number; // share of coverage (CHECK_WEIGHTS)
+  detail?: string; // skip reason / error message
+  done?: number; // partial: share of the check's items that succeeded (0-1)
+};
+
+/** Per-item outcomes of a check that fans out (one lookup per buy / holder): failed items make it partial. */
+export type CheckItems = {
+  ok(): void;
+  fail(e: unknown): void;
+};
+
+export type Coverage = { ratio: number; missing: string[] };
+
+/** How much each check contributes to coverage; roughly how much of the score it can move. Unlisted ids: 1. */
+export const CHECK_WEIGHTS: Record<string, number> = {
+  // SOL token (base)
+  mint_account: 3, // authorities + supply
+  largest_accounts: 3, // top-10
+  top_holders: 2, // tags + concentration
+  dev_candidate: 2,
+  dev_holdings: 2,
+  age: 1,
+  early_buyers: 1,
+  token_meta: 1,
+  holders_count: 1,
+
+  // EVM token (base)
+  erc20_meta: 3,
+  honeypot_sim: 3,
+  transfer_logs: 3,
+  deploy_block: 1,
+  holder_distribution: 3, // holders / top10 / concentration need the full transfer history
+
+  // wallets
+  wallet_account: 1,
+  wallet_history: 2, // age + funder
+  wallet_activity: 2, // deploys
+  wallet_buys: 2, // sniper / bundler
+  tx_count: 3,
+  community_flags: 1,
+
+  // deep (score_deep)
+  token2022: 2,
+  liquidity: 3,
+  dev_history: 2,
+  tx_patterns: 3,
+  launchpad: 1,
+  funding_clusters: 2,
+  dev_dump: 2,
+};
+
+const CONFIDENCE_MIN: { HIGH: number; MED: number } = { HIGH: 0.9, MED: 0.6 };
+
+function checkWeight(id: string) {
+  return CHECK_WEIGHTS[id] ?? 1;
+}
+
+function isTimeout(e: any) {
+  return e?.message === "timeout" || e?.name === "AbortError" || e?.name === "TimeoutError";
+}
+
+/* =========================================================
+   Recorder
+   ========================================================= */
+
+export type CheckRecorder = {
+  /**
+   * Runs a check; failures are recorded and return undefined (`required`: recorded, then rethrown). Items reported
+   * through `items` decide the status when some failed: "partial", or a failure when none succeeded.
+   */
+  run<T>(
+    id: string,
+    fn: (items: CheckItems) => Promise<T>,
+    opts?: { timeoutMs?: number; required?: boolean }
+  ): Promise<T | undefined>;
+  skip(id: string, reason: string): void;
+  /** Records a check whose work ran inline (sequential sections): `error` set = failed. */
+  done(id: string, ms: number, error?: unknown): void;
+  results: CheckResult[];
+};
+
+export function checkRecorder(): CheckRecorder {
+  const results: CheckResult[] = [];
+  const push = (id: string, status: CheckStatus, ms: number, detail?: string, done?: number) =>
+    results.push({
+      id,
+      status,
+      ms,
+      weight: checkWeight(id),
+      ...(detail ? { detail } : {}),
+      ...(done !== undefined ? { done } : {}),
+    });
+  const fail = (id: string, ms: number, e: any) =>
+    push(id, isTimeout(e) ? "timeout" : "error", ms, String(e?.message || e).slice(0, 200));
+
+  return {
+    results,
+    async run(id, fn, opts = {}) {
+      const t0 = Date.now();
+      let ok = 0;
+      let failed = 0;
+      let lastError: any;
+      const items: CheckItems = {
+        ok: () => {
+          ok++;
+        },
+        fail: (e) => {
+          failed++;
+          lastError = e;
+        },
+      };
+      try {
+        const v = await (opts.timeoutMs ? withTimeout(fn(items), opts.timeoutMs) : fn(items));
+        if (!failed) push(id, "ok", Date.now() - t0);
+        else if (!ok) fail(id, Date.now() - t0, lastError);
+        else {
+          const detail = `${failed}/${ok + failed} failed: ${String(lastError?.message || lastError)}`.slice(0, 200);
+          push(id, "partial", Date.now() - t0, detail, Math.round((ok / (ok + failed)) * 100) / 100);
+        }
+        return v;
+      } catch (e: any) {
+        fail(id, Date.now() - t0, e);
+        if (opts.required) throw e;
+        return undefined;
+      }
+    },
+    skip(id, reason) {
+      push(id, "skipped", 0, reason);
+    },
+    done(id, ms, error) {
+      if (error !== undefined) fail(id, ms, error);
+      else push(id, "ok", ms);
+    },
+  };
+}
+
+/* =========================================================
+   Coverage -> confidence
+   ========================================================= */
+
+/** Later results replace earlier ones with the same id (e.g. a deep re-run). */
+export function mergeChecks(...lists: (CheckResult[] | undefined)[]): CheckResult[] {
+  const byId = new Map<string, CheckResult>();
+  for (const list of lists) for (const c of list ?? []) byId.set(c.id, c);
+  return Array.from(byId.values());
+}
+
+// a partial check counts for the share of its items that succeeded
+function ranShare(c: CheckResult) {
+  if (c.status === "ok") return 1;
+  return c.status === "partial" ? c.done ?? 0 : 0;
+}
+
+export function coverage(checks: CheckResult[]): Coverage {
+  const total = checks.reduce((s, c) => s + c.weight, 0);
+  const ran = checks.reduce((s, c) => s + c.weight * ranShare(c), 0);
+  return {
+    ratio: total > 0 ? Math.round((ran / total) * 100) / 100 : 0,
+    missing: checks.filter((c) => c.status !== "ok").map((c) => c.id),
+  };
+}
+
+export function confidenceFromCoverage(ratio: number): Confidence {
+  if (ratio >= CONFIDENCE_MIN.HIGH) return "HIGH";
+  if (ratio >= CONFIDENCE_MIN.MED) return "MED";
+  return "LOW";
+}
+
+/** Attaches the checks and sets confidence from their coverage (DEMO responses stay LOW). */
+export function withCoverage(r: ScoreResponse, checks: CheckResult[]): ScoreResponse {
+  const c = coverage(checks);
+  return {
+    ...r,
+    risk: { ...r.risk, coverage: c.ratio, confidence: r.risk.mode === "LIVE" ? confidenceFromCoverage(c.ratio) : "LOW" },
+    checks,
+    missing_checks: c.missing,
+  };
+}
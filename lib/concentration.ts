@@ -0,0 +1,68 @@
+// lib/concentration.ts
+// Holder concentration metrics computed on the top-20 holders after excluding
+// LP vaults / bonding curves / lockers (tag LP) and burn accounts (tag BURN).
+// Gini / HHI / Nakamoto / >1% wallets are top-20 sample metrics (scope "top20").
+
+import type { Concentration, TopHolder } from "./types";
+
+const EXCLUDED_TAGS = new Set(["LP", "BURN"]);
+
+/** Gini coefficient of balances (0 = equal, 1 = one wallet holds all). */
+export function gini(values: number[]): number | null {
+  const xs = values.filter((v) => v > 0).sort((a, b) => a - b);
+  const n = xs.length;
+  if (n === 0) return null;
+  const sum = xs.reduce((a, b) => a + b, 0);
+  if (sum <= 0) return null;
+
+  let weighted = 0;
+  xs.forEach((x, i) => (weighted += (i + 1) * x));
+  return (2 * weighted) / (n * sum) - (n + 1) / n;
+}
+
+export function computeConcentration(holders: TopHolder[]): Concentration {
+  // Same owner may hold several token accounts
+  const byOwner = new Map<string, number>();
+  let excludedPct = 0;
+  let burnedPct = 0;
+
+  for (const h of holders) {
+    if (EXCLUDED_TAGS.has(h.tag || "")) {
+      excludedPct += h.percent;
+      if (h.tag === "BURN") burnedPct += h.percent;
+      continue;
+    }
+    const key = h.owner || h.token_account;
+    byOwner.set(key, (byOwner.get(key) ?? 0) + h.percent);
+  }
+
+  // Shares relative to circulating supply (total minus burned)
+  const circulating = Math.max(0, 100 - burnedPct);
+  const shares = Array.from(byOwner.values())
+    .map((p) => (circulating > 0 ? (p / circulating) * 100 : 0))
+    .sort((a, b) => b - a);
+
+  const top10 = shares.slice(0, 10).reduce((a, b) => a + b, 0);
+  const hhi = shares.reduce((a, s) => a + s * s, 0);
+
+  let nakamoto: number | null = null;
+  let acc = 0;
+  for (let i = 0; i < shares.length; i++) {
+    acc += shares[i];
+    if (acc > 50) {
+      nakamoto = i + 1;
+      break;
+    }
+  }
+
+  return {
+    scope: "top20",
+    top10_adjusted_percent: top10,
+    excluded_percent: excludedPct,
+    gini: gini(shares),
+    hhi: Math.round(hhi),
+    nakamoto,
+    holders_gt_1pct: shares.filter((s) => s > 1).length,
+    sample_size: shares.length,
+  };
+}
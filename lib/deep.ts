@@ -0,0 +1,682 @@
+// lib/deep.ts
+// Deep analysis for SOL tokens (slow checks: Token-2022, LP, dev history, tx patterns, launchpad, funding clusters,
+// dev dump) and its cached entry points (GET /api/score_deep, stream, bot, watchlists).
+
+import type { DevHistory, FundingCluster, LaunchpadInfo, Signal } from "./types";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { explorerAddress, explorerToken } from "./explorer";
+import { withTimeout } from "./async";
+import { discoverTopPairViaDexScreener } from "./dexscreener";
+import { analyzeDevHistory } from "./devHistory";
+import { heliusEnhancedTxByAddressAsc, type HeliusEnhancedTx } from "./helius";
+import { cached, cacheSet } from "./cache";
+import { recordDeepSnapshot } from "./history";
+import { MODEL_VERSION } from "./risk";
+import { solConnection } from "./solana";
+import { providerFetch, withBudgetLane } from "./limiter";
+import { checkRecorder, coverage, type CheckResult } from "./checks";
+import { buildFundingGraph } from "./fundingGraph";
+import { creatorInitialBuy, fetchCurveState, launchpadSignals } from "./launchpad";
+import { analyzeLpToken, analyzePoolLiquidity, lpSignals, type LpAnalysis } from "./liquidity";
+import { decodeMintExtensions, token2022Signals, TOKEN_2022_PROGRAM_ID } from "./token2022";
+
+/* =========================================================
+   Helpers
+   ========================================================= */
+
+function uniq<T>(arr: T[]) {
+  return Array.from(new Set(arr));
+}
+
+function asNum(x: any): number | null {
+  const n = Number(x);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toProofLinks(urls: string[] | undefined) {
+  const arr = Array.isArray(urls) ? urls : [];
+  const dedup = uniq(arr).filter(Boolean);
+
+  return dedup.map((url) => {
+    let label = "Proof";
+    if (url.includes("solscan.io")) label = "Solscan";
+    else if (url.includes("solana.fm")) label = "SolanaFM";
+    else if (url.includes("birdeye.so")) label = "Birdeye";
+    else if (url.includes("dexscreener.com")) label = "Dexscreener";
+    return { label, url };
+  });
+}
+
+function addSignal(signals: any[], s: Signal) {
+  const raw = (s as any).proof;
+  const proof = Array.isArray(raw) ? raw.map((x) => String(x)).filter(Boolean) : [];
+
+  const dedup = Array.from(new Set(proof));
+
+  signals.push({
+    ...s,
+    proof: dedup,
+    proofLinks: toProofLinks(dedup),
+  });
+}
+
+/* =========================================================
+   Raydium LP check (Deep only)
+   ========================================================= */
+
+const RAYDIUM_API = "https://api-v3.raydium.io";
+
+// (fallback) Common quote mints (mainnet)
+const WSOL_MINT = "So11111111111111111111111111111111111111112";
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+async function fetchJson(url: string, ms = 6000) {
+  const ctrl = new AbortController();
+  const t = setTimeout(() => ctrl.abort(), ms);
+  try {
+    const r = await providerFetch("raydium", url, { signal: ctrl.signal });
+    const j = await r.json().catch(() => null);
+    if (!r.ok) throw new Error(`HTTP ${r.status}: ${JSON.stringify(j)}`);
+    return j;
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+function extractArray(j: any): any[] {
+  if (!j) return [];
+  if (Array.isArray(j)) return j;
+  if (Array.isArray(j.data)) return j.data;
+  if (Array.isArray(j?.data?.data)) return j.data.data;
+  if (Array.isArray(j?.data?.list)) return j.data.list;
+  if (Array.isArray(j?.data?.pools)) return j.data.pools;
+  if (Array.isArray(j?.pools)) return j.pools;
+  return [];
+}
+
+function pickPoolId(pool: any): string | null {
+  return (
+    pool?.id ||
+    pool?.poolId ||
+    pool?.ammId ||
+    pool?.amm_id ||
+    pool?.pool_id ||
+    pool?.poolIdStr ||
+    pool?.pool_id_str ||
+    null
+  );
+}
+
+async function discoverRaydiumPoolId(
+  tokenMint: string
+): Promise<{ poolId: string; quote: "WSOL" | "USDC" } | null> {
+  const tries: Array<{ quote: "WSOL" | "USDC"; mint: string }> = [
+    { quote: "WSOL", mint: WSOL_MINT },
+    { quote: "USDC", mint: USDC_MINT },
+  ];
+
+  for (const q of tries) {
+    const url =
+      `${RAYDIUM_API}/pools/info/mint?` +
+      new URLSearchParams({
+        mint1: tokenMint,
+        mint2: q.mint,
+        poolType: "all",
+        page: "1",
+        pageSize: "10",
+      }).toString();
+
+    try {
+      const j = await fetchJson(url, 7000);
+      const pools = extractArray(j);
+      if (!pools.length) continue;
+
+      const poolId = pickPoolId(pools[0]);
+      if (poolId) return { poolId, quote: q.quote };
+    } catch {
+      // ignore; try next quote
+    }
+  }
+
+  return null;
+}
+
+// ✅ This is the correct, single, global function (NOT nested)
+async function fetchRaydiumLpMintByPoolId(poolId: string): Promise<string | null> {
+  try {
+    const url = `${RAYDIUM_API}/pools/info/ids?ids=${encodeURIComponent(poolId)}`;
+    const r = await providerFetch("raydium", url, { headers: { accept: "application/json" } });
+    if (!r.ok) return null;
+
+    const j: any = await r.json().catch(() => null);
+    const arr = j?.data;
+    const first = Array.isArray(arr) ? arr[0] : arr;
+
+    if (!first) return null;
+
+    // lpMint can be:
+    // - string
+    // - object like { address: "..." } or { mint: "..." }
+    // - nested in first.lpMint.address
+    const raw = first?.lpMint ?? first?.lp_mint ?? null;
+
+    let lp: any = raw;
+
+    if (lp && typeof lp === "object") {
+      lp = lp.address || lp.mint || lp.pubkey || lp.toString?.() || null;
+    }
+
+    if (typeof lp !== "string") return null;
+
+    const lpMint = lp.trim();
+
+    // sanity check: should be base58-like and not "[object Object]"
+    if (!lpMint || lpMint.includes("[object")) return null;
+
+    return lpMint;
+  } catch {
+    return null;
+  }
+}
+
+/* =========================================================
+   Dev candidate (same idea as your score.ts but lighter)
+   ========================================================= */
+
+async function detectDevCandidate(
+  conn: Connection,
+  mintPk: PublicKey
+): Promise<{ dev?: string; reason: string; proof?: string[] }> {
+  try {
+    const mintAcc = await conn.getParsedAccountInfo(mintPk);
+    const parsed: any = (mintAcc.value?.data as any)?.parsed;
+    const info = parsed?.info || null;
+
+    const mintAuth = info?.mintAuthority ?? null;
+    const freezeAuth = info?.freezeAuthority ?? null;
+
+    if (mintAuth) {
+      return {
+        dev: String(mintAuth),
+        reason: "mintAuthority",
+        proof: [explorerToken("sol", mintPk.toBase58())],
+      };
+    }
+    if (freezeAuth) {
+      return {
+        dev: String(freezeAuth),
+        reason: "freezeAuthority",
+        proof: [explorerToken("sol", mintPk.toBase58())],
+      };
+    }
+  } catch {
+    // ignore
+  }
+
+  try {
+    const sigs = await conn.getSignaturesForAddress(mintPk, { limit: 1000 });
+    if (!sigs.length) return { reason: "unknown" };
+
+    const oldest = sigs[sigs.length - 1];
+    const sig = oldest.signature;
+
+    const tx = await conn.getParsedTransaction(sig, { maxSupportedTransactionVersion: 0 });
+    if (!tx) return { reason: "unknown", proof: [`https://solscan.io/tx/${sig}`] };
+
+    const keys: any[] = (tx.transaction.message as any).accountKeys || [];
+    const signer = keys.find((k) => k.signer);
+    const signerStr = signer?.pubkey?.toString?.() || signer?.toString?.();
+
+    if (signerStr) {
+      return {
+        dev: String(signerStr),
+        reason: "earliestSigner",
+        proof: [`https://solscan.io/tx/${sig}`],
+      };
+    }
+    return { reason: "unknown", proof: [`https://solscan.io/tx/${sig}`] };
+  } catch {
+    return { reason: "unknown" };
+  }
+}
+
+/* =========================================================
+   Deep analysis (slow, more accurate than base)
+   ========================================================= */
+
+export type DeepCheckId = "token2022" | "liquidity" | "dev_history" | "tx_patterns" | "launchpad" | "funding_clusters" | "dev_dump";
+
+/** Emitted after each deep check: only the signals that check added, its status (plus its data, if any). */
+export type DeepCheckEvent = { check: DeepCheckId; signals: Signal[]; result?: CheckResult; data?: any };
+
+async function deepAnalyzeSol(mint: string, onCheck?: (e: DeepCheckEvent) => void) {
+  const conn = solConnection();
+  const mintPk = new PublicKey(mint);
+
+  const signals: any[] = [];
+  const liqDebug: any = {};
+  let token2022Extensions: string[] | null = null;
+
+  // each section is timed from the end of the previous one; a section that caught an error records it in `failed`
+  const checks = checkRecorder();
+  const failed: Partial<Record<DeepCheckId, unknown>> = {};
+  let sectionStart = Date.now();
+
+  let reported = 0;
+  const checkDone = (check: DeepCheckId, data?: any) => {
+    if (!checks.results.some((c) => c.id === check)) checks.done(check, Date.now() - sectionStart, failed[check]);
+    sectionStart = Date.now();
+    const result = checks.results.find((c) => c.id === check);
+
+    const fresh = signals.slice(reported);
+    reported = signals.length;
+    try {
+      onCheck?.({ check, signals: fresh, result, ...(data !== undefined ? { data } : {}) });
+    } catch {
+      // a listener must never break deep
+    }
+  };
+
+  // Contract program check (Token-2022 => decode TLV extensions, score each one)
+  try {
+    const info = await conn.getAccountInfo(mintPk);
+    const owner = info?.owner?.toBase58?.();
+    if (info && owner === TOKEN_2022_PROGRAM_ID) {
+      const ext = decodeMintExtensions(Buffer.from(info.data));
+      token2022Extensions = ext.names;
+
+      let epoch: number | undefined;
+      try {
+        epoch = (await conn.getEpochInfo()).epoch;
+      } catch {}
+
+      for (const s of token2022Signals(mint, ext, epoch)) addSignal(signals, s);
+    }
+  } catch (e) {
+    failed.token2022 = e;
+  }
+  checkDone("token2022", { extensions: token2022Extensions });
+
+  // Dev candidate
+  const devCand = await detectDevCandidate(conn, mintPk);
+  const dev = devCand.dev;
+
+  // Launchpad bonding curve (pre-migration tokens have no pool yet)
+  let launchpad: LaunchpadInfo | null = null;
+  try {
+    launchpad = await fetchCurveState(conn, mint);
+  } catch (e) {
+    failed.launchpad = e;
+  }
+
+  // ===== LIQUIDITY (DEEP only) =====
+  // Always emit ONE of: LP_OK / LP_NOT_BURNED / LP_DEV_OWNED / LP_STATUS_UNKNOWN
+  try {
+    const disc = await discoverTopPairViaDexScreener(mint);
+    liqDebug.disc = disc || null;
+    let lpAnalysis: LpAnalysis | null = null;
+    const dexPairUrl = (pairAddr: string, url?: string) => (url ? url : `https://dexscreener.com/solana/${pairAddr}`);
+
+    if (launchpad && !launchpad.complete) {
+      addSignal(signals, {
+        id: "LP_OK",
+        label: `Liquidity held by ${launchpad.launchpad} bonding curve (not withdrawable)`,
+        weight: 0,
+        proof: [explorerAddress("sol", launchpad.curve)],
+      });
+    } else if (!disc) {
+      addSignal(signals, {
+        id: "LP_STATUS_UNKNOWN",
+        label: "Liquidity status unknown (no pool detected)",
+        weight: 0,
+        proof: [`https://dexscreener.com/solana/${mint}`],
+      });
+    } else if ((lpAnalysis = await analyzePoolLiquidity(conn, disc.pairAddress, { mint, quoteMint: disc.quoteMint, dev }))) {
+      // Orca / Raydium CLMM / Meteora / PumpSwap
+      liqDebug.lp = lpAnalysis;
+      for (const s of lpSignals(lpAnalysis, dexPairUrl(disc.pairAddress, disc.url))) addSignal(signals, s);
+    } else if (disc.dexId === "raydium") {
+      // For CPMM, v3 info endpoint is the correct way to get lpMint.
+      let poolId = disc.pairAddress;
+      let lpMint = await fetchRaydiumLpMintByPoolId(poolId);
+      liqDebug.poolId = poolId;
+      liqDebug.lpMint = lpMint;
+
+      // Fallback: try Raydium mint->pool discovery (WSOL/USDC)
+      if (!lpMint) {
+        const found = await discoverRaydiumPoolId(mint);
+        if (found?.poolId) {
+          poolId = found.poolId;
+          lpMint = await fetchRaydiumLpMintByPoolId(poolId);
+        }
+      }
+
+      if (!lpMint) {
+        addSignal(signals, {
+          id: "LP_STATUS_UNKNOWN",
+          label: "Raydium pool detected but LP mint not resolved",
+          weight: 0,
+          proof: [dexPairUrl(disc.pairAddress, disc.url)], // ✅ one link
+        });
+      } else {
+        // Guard: sometimes lpMint can still be garbage
+try {
+  new PublicKey(lpMint);
+} catch {
+  addSignal(signals, {
+    id: "LP_STATUS_UNKNOWN",
+    label: "Raydium LP mint invalid (API returned non-mint value)",
+    weight: 0,
+    proof: [dexPairUrl(disc.pairAddress, disc.url)],
+  });
+  // + debug
+  liqDebug.lpMint_invalid = lpMint;
+  return;
+}
+        const lp = await analyzeLpToken(conn, lpMint, { dev });
+
+        if (!lp) {
+          addSignal(signals, {
+            id: "LP_STATUS_UNKNOWN",
+            label: "LP mint resolved but burn status unknown (RPC)",
+            weight: 0,
+            proof: [dexPairUrl(disc.pairAddress, disc.url)], // ✅ one link
+          });
+        } else {
+          lpAnalysis = { dex: "Raydium", pool: poolId, model: "LP_TOKEN", lp_mint: lpMint, one_sided: null, ...lp };
+          liqDebug.lp = lpAnalysis;
+          for (const s of lpSignals(lpAnalysis, dexPairUrl(disc.pairAddress, disc.url))) addSignal(signals, s);
+        }
+      }
+    } else {
+      addSignal(signals, {
+        id: "LP_STATUS_UNKNOWN",
+        label: `DEX detected (${disc.dexId}), LP model not implemented`,
+        weight: 0,
+        proof: [dexPairUrl(disc.pairAddress, disc.url)],
+      });
+    }
+  } catch (e) {
+    // never break deep
+    failed.liquidity = e;
+    addSignal(signals, {
+      id: "LP_STATUS_UNKNOWN",
+      label: "Liquidity status unknown (LP check error)",
+      weight: 0,
+      proof: [`https://dexscreener.com/solana/${mint}`],
+    });
+  }
+  checkDone("liquidity");
+
+  // Dev history (serial deployer): other launches by the same dev
+  let devHistory: DevHistory | null = null;
+  if (dev && process.env.HELIUS_API_KEY) {
+    try {
+      const h = await withTimeout(analyzeDevHistory(dev, mint), 20_000);
+      devHistory = h.history;
+      for (const s of h.signals) addSignal(signals, s);
+    } catch (e) {
+      // never break deep
+      failed.dev_history = e;
+    }
+  } else {
+    checks.skip("dev_history", dev ? "HELIUS_API_KEY not set" : "no dev candidate");
+  }
+  checkDone("dev_history", { dev_candidate: dev || null, dev_history: devHistory });
+
+  // Enhanced TX
+  let txs: HeliusEnhancedTx[] = [];
+  let txError: string | null = null;
+
+  try {
+    const LIMIT = 100; // strict, avoid helius 400
+    txs = await withTimeout<HeliusEnhancedTx[]>(
+  heliusEnhancedTxByAddressAsc(mint, LIMIT),
+  18_000
+);
+  } catch (e: any) {
+    txError = e?.message || "enhanced tx failed";
+    failed.tx_patterns = e;
+    txs = [];
+  }
+
+  const launchTs = typeof txs[0]?.timestamp === "number" ? txs[0]!.timestamp! : null;
+
+  // --- Buyers burst heuristics ---
+  const EARLY_WINDOW_SEC = 60;
+  const EARLY_WINDOW_SEC_WIDE = 180;
+
+  const buyersEarly: string[] = [];
+  const buyersEarlyWide: string[] = [];
+
+  for (const tx of txs) {
+    const ts = typeof tx.timestamp === "number" ? tx.timestamp : null;
+    if (!launchTs || !ts) continue;
+
+    const dt = ts - launchTs;
+    if (dt < 0) continue;
+
+    const tts = Array.isArray(tx.tokenTransfers) ? tx.tokenTransfers : [];
+    for (const tt of tts) {
+      if ((tt?.mint || "").toString() !== mint) continue;
+      const to = tt?.toUserAccount;
+      const amt = asNum(tt?.tokenAmount);
+      if (!to || !amt || amt <= 0) continue;
+
+      if (dt <= EARLY_WINDOW_SEC) buyersEarly.push(to);
+      if (dt <= EARLY_WINDOW_SEC_WIDE) buyersEarlyWide.push(to);
+    }
+  }
+
+  const uniqBuyersEarly = uniq(buyersEarly);
+  const uniqBuyersEarlyWide = uniq(buyersEarlyWide);
+
+  if (uniqBuyersEarly.length >= 6) {
+    const proofSig = txs.find((t) => t?.signature)?.signature;
+    addSignal(signals, {
+      id: "BUNDLED_LAUNCH_OR_MEV",
+      label: "Many unique buyers in first minute (possible bundled launch / snipers / MEV)",
+      value: `buyers_60s=${uniqBuyersEarly.length}`,
+      weight: 5,
+      proof: proofSig ? [`https://solscan.io/tx/${proofSig}`] : [explorerToken("sol", mint)],
+    });
+  } else if (uniqBuyersEarlyWide.length >= 12) {
+    const proofSig = txs.find((t) => t?.signature)?.signature;
+    addSignal(signals, {
+      id: "BUNDLED_LAUNCH_OR_MEV",
+      label: "High buyer burst in first minutes (possible snipers / MEV)",
+      value: `buyers_3m=${uniqBuyersEarlyWide.length}`,
+      weight: 5,
+      proof: proofSig ? [`https://solscan.io/tx/${proofSig}`] : [explorerToken("sol", mint)],
+    });
+  }
+  checkDone("tx_patterns", { tx_checked: txs.length, tx_error: txError });
+
+  // Token supply (cluster share + dev dump %)
+  let supplyUi: number | null = null;
+  try {
+    const supply = await conn.getTokenSupply(mintPk);
+    supplyUi = typeof supply.value.uiAmount === "number" ? supply.value.uiAmount : null;
+  } catch {}
+
+  // Launchpad: creator's own buy in the create tx (first Helius tx of the mint)
+  if (launchpad) {
+    try {
+      const buy = await withTimeout(
+        creatorInitialBuy(conn, mint, { createSig: txs[0]?.signature, creator: launchpad.creator, supplyUi }),
+        10_000
+      );
+      if (buy) launchpad.dev_initial_buy = buy;
+    } catch {
+      // ignore
+    }
+    for (const s of launchpadSignals(launchpad)) addSignal(signals, s);
+  }
+  checkDone("launchpad", { launchpad });
+
+  // Cluster funding: multi-hop funding graph of early buyers
+  let fundingClusters: FundingCluster[] = [];
+  if (uniqBuyersEarlyWide.length >= 2) {
+    const firstBuyTs = new Map<string, number>();
+    for (const tx of txs) {
+      if (typeof tx.timestamp !== "number") continue;
+      for (const tt of tx.tokenTransfers ?? []) {
+        const to = tt?.toUserAccount;
+        if (tt?.mint === mint && to && !firstBuyTs.has(to)) firstBuyTs.set(to, tx.timestamp);
+      }
+    }
+
+    const buyers = uniqBuyersEarlyWide.filter((w) => w !== dev).map((w) => ({ wallet: w, buy_ts: firstBuyTs.get(w) }));
+
+    try {
+      const g = await buildFundingGraph(conn, mint, buyers, supplyUi, { timeoutMs: 25_000 });
+      fundingClusters = g.clusters;
+      if (g.partial) failed.funding_clusters = new Error("timeout"); // clusters from the buyers traced in time
+    } catch (e) {
+      // never break deep
+      failed.funding_clusters = e;
+    }
+  }
+
+  const biggest = fundingClusters[0];
+  const clusterPct = biggest?.supply_pct ?? null;
+
+  if (biggest && (biggest.wallets.length >= 3 || (clusterPct !== null && clusterPct >= 5))) {
+    const links = biggest.proof_sigs.map((sig) => `https://solscan.io/tx/${sig}`);
+    addSignal(signals, {
+      id: "CLUSTER_FUNDING",
+      label: "Early buyers share a funding source (multi-hop cluster funding)",
+      value:
+        `clusters=${fundingClusters.length}, largest=${biggest.wallets.length} wallets` +
+        (clusterPct !== null ? `, supply=${clusterPct.toFixed(2)}%` : ""),
+      weight: clusterPct !== null && clusterPct >= 10 ? 10 : 5,
+      proof: links.length ? links.slice(0, 3) : biggest.shared_ancestors.slice(0, 2).map((a) => explorerAddress("sol", a)),
+    });
+  }
+  checkDone("funding_clusters", { funding_clusters: fundingClusters });
+
+  // Dev dump early heuristic
+  if (dev && launchTs) {
+    let totalDevOut = 0;
+    let firstDumpSig: string | undefined;
+
+    for (const tx of txs) {
+      const ts = typeof tx.timestamp === "number" ? tx.timestamp : null;
+      if (!ts) continue;
+      const dt = ts - launchTs;
+      if (dt < 0 || dt > 60 * 60) continue;
+
+      const tts = Array.isArray(tx.tokenTransfers) ? tx.tokenTransfers : [];
+      for (const tt of tts) {
+        if ((tt?.mint || "").toString() !== mint) continue;
+        const from = tt?.fromUserAccount;
+        const amt = asNum(tt?.tokenAmount);
+        if (!from || !amt || amt <= 0) continue;
+
+        if (from === dev) {
+          totalDevOut += amt;
+          if (!firstDumpSig && tx.signature) firstDumpSig = tx.signature;
+        }
+      }
+    }
+
+    if (totalDevOut > 0) {
+      const pct = supplyUi && supplyUi > 0 ? (totalDevOut / supplyUi) * 100 : null;
+      const shouldFlag = pct !== null ? pct >= 1.0 : totalDevOut >= 100_000;
+
+      if (shouldFlag) {
+        addSignal(signals, {
+          id: "DEV_DUMP_EARLY",
+          label: "Dev wallet moved a significant amount soon after launch (possible early dump)",
+          value:
+            pct !== null
+              ? `dev_out=${pct.toFixed(2)}% (first 60m)`
+              : `dev_out=${Math.round(totalDevOut)} (first 60m)`,
+          weight: 10,
+          proof: [
+  firstDumpSig
+    ? `https://solscan.io/tx/${firstDumpSig}`
+    : explorerAddress("sol", dev),
+],
+        });
+      }
+    }
+  } else {
+    checks.skip("dev_dump", dev ? "launch time unknown" : "no dev candidate");
+  }
+  checkDone("dev_dump");
+
+  return {
+    signals,
+    checks: checks.results,
+    dev_history: devHistory,
+    funding_clusters: fundingClusters,
+    launchpad,
+    meta: {
+      tx_checked: txs.length,
+      launch_ts: launchTs,
+      dev_candidate: dev || null,
+      dev_reason: devCand.reason,
+      tx_error: txError,
+      token2022_extensions: token2022Extensions,
+       liq_debug: liqDebug,
+    },
+  };
+}
+
+/* =========================================================
+   Cached entry points
+   ========================================================= */
+
+async function deepAndRecord(input: string, onCheck?: (e: DeepCheckEvent) => void) {
+  const t0 = Date.now();
+  // deep spends its own lane of each provider budget, so it cannot starve base scores
+  const out = await withBudgetLane("deep", () => deepAnalyzeSol(input, onCheck));
+
+  const signals = (out && Array.isArray((out as any).signals) ? (out as any).signals : []) as Signal[];
+  const meta = (out && (out as any).meta ? (out as any).meta : {}) as any;
+
+  const deep = {
+    chain: "sol" as const,
+    input,
+    model_version: MODEL_VERSION,
+    signals,
+    dev_history: (out as any)?.dev_history ?? null,
+    funding_clusters: (out as any)?.funding_clusters ?? [],
+    launchpad: (out as any)?.launchpad ?? null,
+    checks: ((out as any)?.checks ?? []) as CheckResult[],
+    coverage: coverage((out as any)?.checks ?? []).ratio,
+    meta: {
+      ...meta,
+      ms: Date.now() - t0,
+    },
+  };
+
+  await recordDeepSnapshot("sol", input, deep).catch(() => {});
+  return deep;
+}
+
+function deepCacheKey(input: string) {
+  return `${MODEL_VERSION}:sol:${input}`;
+}
+
+/**
+ * Cached deep analysis (GET /api/score_deep, the stream, bot).
+ * `onCheck` only fires when this call actually runs the checks (not on a cache hit or a joined in-flight load).
+ */
+export function getDeep(input: string, onCheck?: (e: DeepCheckEvent) => void) {
+  return cached("deep", deepCacheKey(input), () => deepAndRecord(input, onCheck));
+}
+
+/** Deep signals only: no cache, no history snapshot (backtest replays). */
+export async function deepSignals(input: string): Promise<Signal[]> {
+  const out = await withBudgetLane("deep", () => deepAnalyzeSol(input));
+  return Array.isArray((out as any)?.signals) ? (out as any).signals : [];
+}
+
+/** Fresh deep analysis (bypasses the cache, then refreshes it) — used by background re-scoring. */
+export async function rescoreDeep(input: string) {
+  const deep = await deepAndRecord(input);
+  await cacheSet("deep", deepCacheKey(input), deep);
+  return deep;
+}
@@ -0,0 +1,192 @@
+// lib/devHistory.ts
+// Serial-deployer history: other mints created by the dev candidate and how they went
+// (early dump, died < 24h, LP pulled). Fills ScoreResponse.dev_history.
+
+import type { DevHistory, Signal } from "./types";
+import { explorerAddress, explorerTx } from "./explorer";
+import { heliusEnhancedTxByAddress, heliusEnhancedTxByAddressAsc, type HeliusEnhancedTx } from "./helius";
+import { providerNow } from "./recorder";
+import { createdMintsFromTxs } from "./wallet";
+
+const DEV_TX_PAGES = 3; // x100 recent dev txs
+const MAX_MINTS_CHECKED = 8;
+const EARLY_WINDOW_SEC = 60 * 60;
+const DAY_SEC = 24 * 60 * 60;
+
+// Helius enhanced tx types for liquidity removal
+const LP_REMOVE_TYPES = new Set(["WITHDRAW_LIQUIDITY", "REMOVE_LIQUIDITY", "BURN_LP"]);
+
+type MintOutcome = {
+  mint: string;
+  launch_ts?: number;
+  early_dump: boolean;
+  died_lt_24h: boolean;
+  lp_pulled: boolean;
+  first_out_min: number | null;
+  proofSig?: string;
+};
+
+/* =========================================================
+   Helpers
+   ========================================================= */
+
+function median(xs: number[]): number | null {
+  if (!xs.length) return null;
+  const s = [...xs].sort((a, b) => a - b);
+  const m = Math.floor(s.length / 2);
+  return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
+}
+
+async function fetchDevTxs(dev: string): Promise<HeliusEnhancedTx[]> {
+  const all: HeliusEnhancedTx[] = [];
+  let before: string | undefined;
+
+  for (let page = 0; page < DEV_TX_PAGES; page++) {
+    const txs = await heliusEnhancedTxByAddress(dev, { limit: 100, before });
+    all.push(...txs);
+    if (txs.length < 100) break;
+    before = txs[txs.length - 1]?.signature;
+    if (!before) break;
+  }
+  return all;
+}
+
+async function analyzeMint(
+  dev: string,
+  mint: string,
+  createdTs: number | undefined,
+  devTxs: HeliusEnhancedTx[]
+): Promise<MintOutcome> {
+  const now = Math.floor(providerNow() / 1000);
+  const txs = await heliusEnhancedTxByAddressAsc(mint, 100);
+  const launchTs = createdTs ?? (typeof txs[0]?.timestamp === "number" ? txs[0].timestamp : undefined);
+
+  // Dev inflow vs outflow of this mint within the early window
+  let devIn = 0;
+  let devOutEarly = 0;
+  let firstOutTs: number | null = null;
+  let proofSig: string | undefined;
+
+  for (const tx of txs) {
+    const ts = typeof tx.timestamp === "number" ? tx.timestamp : null;
+    for (const tt of tx.tokenTransfers ?? []) {
+      if (tt?.mint !== mint) continue;
+      const amt = Number(tt?.tokenAmount) || 0;
+      if (amt <= 0) continue;
+
+      if (tt.toUserAccount === dev) devIn += amt;
+      if (tt.fromUserAccount === dev && ts !== null) {
+        if (firstOutTs === null) {
+          firstOutTs = ts;
+          proofSig = tx.signature;
+        }
+        if (launchTs && ts - launchTs <= EARLY_WINDOW_SEC) devOutEarly += amt;
+      }
+    }
+  }
+
+  const early_dump = devOutEarly > 0 && (devIn === 0 || devOutEarly / devIn >= 0.5);
+
+  // Died: no activity after the first day (only decidable once the token is > 24h old)
+  let died_lt_24h = false;
+  if (launchTs && now - launchTs > DAY_SEC) {
+    try {
+      const latest = (await heliusEnhancedTxByAddress(mint, { limit: 1 }))[0];
+      const lastTs = typeof latest?.timestamp === "number" ? latest.timestamp : null;
+      died_lt_24h = lastTs !== null && lastTs - launchTs < DAY_SEC;
+    } catch {}
+  }
+
+  const lpTx = devTxs.find(
+    (tx) =>
+      LP_REMOVE_TYPES.has(String(tx.type || "")) &&
+      (tx.tokenTransfers ?? []).some((tt) => tt?.mint === mint)
+  );
+
+  return {
+    mint,
+    launch_ts: launchTs,
+    early_dump,
+    died_lt_24h,
+    lp_pulled: Boolean(lpTx),
+    first_out_min: launchTs && firstOutTs !== null ? Math.max(0, (firstOutTs - launchTs) / 60) : null,
+    proofSig: lpTx?.signature ?? proofSig,
+  };
+}
+
+/* =========================================================
+   Public API
+   ========================================================= */
+
+export async function analyzeDevHistory(
+  dev: string,
+  currentMint?: string
+): Promise<{ history: DevHistory; signals: Signal[] }> {
+  const devTxs = await fetchDevTxs(dev);
+  const created = createdMintsFromTxs(dev, devTxs);
+  const others = created.filter((c) => c.mint !== currentMint).slice(0, MAX_MINTS_CHECKED);
+
+  const outcomes: MintOutcome[] = [];
+  const notes: string[] = [`sampled ${devTxs.length} dev txs`];
+
+  for (const c of others) {
+    try {
+      outcomes.push(await analyzeMint(dev, c.mint, c.ts, devTxs));
+    } catch (e: any) {
+      notes.push(`${c.mint.slice(0, 6)}…: ${String(e?.message || e).slice(0, 80)}`);
+    }
+  }
+
+  const early_dump_count = outcomes.filter((o) => o.early_dump).length;
+  const died = outcomes.filter((o) => o.died_lt_24h).length;
+  const rugs = outcomes.filter((o) => o.early_dump && (o.died_lt_24h || o.lp_pulled));
+  const firstOuts = outcomes.map((o) => o.first_out_min).filter((x): x is number => x !== null);
+
+  const history: DevHistory = {
+    launches_est: created.length,
+    helius_sampled_mints: created.length,
+    candidate_mints_checked: outcomes.length,
+    early_dump_count,
+    early_dump_rate: outcomes.length ? early_dump_count / outcomes.length : 0,
+    died_lt_24h: died,
+    median_first_out_min: median(firstOuts),
+    suspected_rugs: rugs.length,
+    notes,
+  };
+
+  const signals: Signal[] = [];
+  const proof = rugs
+    .concat(outcomes.filter((o) => o.early_dump))
+    .map((o) => (o.proofSig ? explorerTx("sol", o.proofSig) : explorerAddress("sol", o.mint)))
+    .slice(0, 3);
+
+  if (rugs.length >= 2 || (outcomes.length >= 3 && history.early_dump_rate >= 0.6)) {
+    signals.push({
+      id: "DEV_SERIAL_RUGGER",
+      label: "Dev has a track record of rugged / dumped launches",
+      value: `suspected_rugs=${rugs.length}, early_dumps=${early_dump_count}/${outcomes.length}, died<24h=${died}`,
+      weight: 15,
+      proof: proof.length ? proof : [explorerAddress("sol", dev)],
+    });
+  } else if (early_dump_count >= 2) {
+    signals.push({
+      id: "DEV_HISTORY_EARLY_DUMPS",
+      label: "Dev dumped early on previous launches",
+      value: `early_dumps=${early_dump_count}/${outcomes.length}`,
+      weight: 5,
+      proof: proof.length ? proof : [explorerAddress("sol", dev)],
+    });
+  }
+
+  if (created.length >= 3) {
+    signals.push({
+      id: "DEV_SERIAL_LAUNCHER",
+      label: "Dev launched multiple tokens",
+      value: `launches=${created.length}${devTxs.length >= DEV_TX_PAGES * 100 ? "+" : ""}`,
+      weight: 0,
+      proof: [explorerAddress("sol", dev)],
+    });
+  }
+
+  return { history, signals };
+}
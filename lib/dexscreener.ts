@@ -1,6 +1,8 @@
 // lib/dexscreener.ts
-// DexScreener discovery with in-memory TTL cache.
-// NOTE: Safe for serverless – cache is best-effort (may reset between cold starts).
+// DexScreener discovery, cached in the "dexscreener" namespace (lib/cache).
+
+import { cached } from "./cache";
+import { providerFetch } from "./limiter";
 
 export type DexDiscovery = {
   dexId: string;       // e.g. "raydium", "pumpswap", "orca", ...
@@ -9,27 +11,6 @@ export type DexDiscovery = {
   url?: string;        // DexScreener URL for the pair
 };
 
-type CacheEntry<T> = { exp: number; val: T };
-const cache = new Map<string, CacheEntry<DexDiscovery | null>>();
-
-function nowMs() {
-  return Date.now();
-}
-
-function getCached(key: string): DexDiscovery | null | undefined {
-  const e = cache.get(key);
-  if (!e) return undefined;
-  if (e.exp <= nowMs()) {
-    cache.delete(key);
-    return undefined;
-  }
-  return e.val;
-}
-
-function setCached(key: string, val: DexDiscovery | null, ttlMs: number) {
-  cache.set(key, { exp: nowMs() + ttlMs, val });
-}
-
 function pickTopPair(pairs: any[]): any | null {
   if (!Array.isArray(pairs) || pairs.length === 0) return null;
 
@@ -45,28 +26,15 @@ function pickTopPair(pairs: any[]): any | null {
   return scored[0]?.p ?? null;
 }
 
-export async function discoverTopPairViaDexScreener(
-  mint: string,
-  ttlMs: number = 7 * 60 * 1000 // 7 min
-): Promise<DexDiscovery | null> {
-  const key = `dexscreener:${mint}`;
-  const cached = getCached(key);
-  if (cached !== undefined) return cached;
-
+async function fetchTopPair(mint: string): Promise<DexDiscovery | null> {
   try {
     const url = `https://api.dexscreener.com/latest/dex/tokens/${mint}`;
-    const res = await fetch(url, { headers: { "accept": "application/json" } });
-    if (!res.ok) {
-      setCached(key, null, ttlMs);
-      return null;
-    }
+    const res = await providerFetch("dexscreener", url, { headers: { "accept": "application/json" } });
+    if (!res.ok) return null;
 
     const data = await res.json();
     const top = pickTopPair(data?.pairs ?? []);
-    if (!top) {
-      setCached(key, null, ttlMs);
-      return null;
-    }
+    if (!top) return null;
 
     const discovery: DexDiscovery = {
       dexId: String(top?.dexId ?? "").toLowerCase(),
@@ -76,15 +44,15 @@ export async function discoverTopPairViaDexScreener(
     };
 
     // Must have pairAddress to be useful
-    if (!discovery.pairAddress) {
-      setCached(key, null, ttlMs);
-      return null;
-    }
-
-    setCached(key, discovery, ttlMs);
-    return discovery;
+    return discovery.pairAddress ? discovery : null;
   } catch {
-    setCached(key, null, ttlMs);
     return null;
   }
-}
\ No newline at end of file
+}
+
+export async function discoverTopPairViaDexScreener(
+  mint: string,
+  ttlMs?: number // default: "dexscreener" namespace TTL (7 min)
+): Promise<DexDiscovery | null> {
+  return (await cached("dexscreener", mint, () => fetchTopPair(mint), { ttlMs })).value;
+}
@@ -0,0 +1,339 @@
+// lib/evm.ts
+// Minimal EVM JSON-RPC client + ERC-20 reads (no ethers dependency).
+// RPC endpoint is configurable per chain, so it works against anvil/hardhat too:
+//   ETH_RPC_URL=http://127.0.0.1:8545
+//   BNB_RPC_URL=http://127.0.0.1:8546
+
+import type { Chain } from "./types";
+import { providerFetch } from "./limiter";
+
+export type EvmChain = Exclude<Chain, "sol">;
+
+const DEFAULT_RPC: Record<EvmChain, string> = {
+  eth: "https://ethereum-rpc.publicnode.com",
+  bnb: "https://bsc-dataseed.binance.org",
+};
+
+export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+export const DEAD_ADDRESS = "0x000000000000000000000000000000000000dead";
+
+// keccak256("Transfer(address,address,uint256)")
+export const TRANSFER_TOPIC =
+  "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+// 4-byte selectors
+const SEL = {
+  name: "0x06fdde03",
+  symbol: "0x95d89b41",
+  decimals: "0x313ce567",
+  totalSupply: "0x18160ddd",
+  balanceOf: "0x70a08231",
+  owner: "0x8da5cb5b",
+  getOwner: "0x893d20e8", // BEP-20
+};
+
+export function isEvmChain(chain: Chain): chain is EvmChain {
+  return chain === "eth" || chain === "bnb";
+}
+
+export function evmRpcUrl(chain: EvmChain): string {
+  const env = chain === "eth" ? process.env.ETH_RPC_URL : process.env.BNB_RPC_URL;
+  return env || DEFAULT_RPC[chain];
+}
+
+/* =========================================================
+   JSON-RPC
+   ========================================================= */
+
+export async function evmRpc<T>(chain: EvmChain, method: string, params: any[]): Promise<T> {
+  const resp = await providerFetch("evm-rpc", evmRpcUrl(chain), {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: method, method, params }),
+  });
+
+  if (!resp.ok) {
+    const txt = await resp.text();
+    throw new Error(`EVM RPC error ${resp.status}: ${txt.slice(0, 200)}`);
+  }
+
+  const j = await resp.json();
+  if (j?.error) throw new Error(j.error?.message || "EVM RPC returned error");
+  return j?.result as T;
+}
+
+export async function evmBlockNumber(chain: EvmChain): Promise<number> {
+  const hex = await evmRpc<string>(chain, "eth_blockNumber", []);
+  return Number(BigInt(hex));
+}
+
+export async function evmBlockTimestamp(chain: EvmChain, block: number): Promise<number | undefined> {
+  const b = await evmRpc<any>(chain, "eth_getBlockByNumber", [toQuantity(block), false]);
+  return b?.timestamp ? Number(BigInt(b.timestamp)) : undefined;
+}
+
+export async function evmCall(chain: EvmChain, to: string, data: string, block: string = "latest") {
+  return evmRpc<string>(chain, "eth_call", [{ to, data }, block]);
+}
+
+/* =========================================================
+   ABI helpers
+   ========================================================= */
+
+export function toQuantity(n: number | bigint) {
+  return "0x" + BigInt(n).toString(16);
+}
+
+export function padAddress(addr: string) {
+  return addr.toLowerCase().replace(/^0x/, "").padStart(64, "0");
+}
+
+export function padUint(n: bigint) {
+  return n.toString(16).padStart(64, "0");
+}
+
+export function wordAt(hex: string, i: number) {
+  const h = hex.replace(/^0x/, "");
+  return h.slice(i * 64, (i + 1) * 64);
+}
+
+export function decodeUint(hex: string | null | undefined): bigint | null {
+  if (!hex || hex === "0x") return null;
+  const w = wordAt(hex, 0);
+  return w ? BigInt("0x" + w) : null;
+}
+
+export function decodeAddress(hex: string | null | undefined): string | null {
+  if (!hex || hex === "0x") return null;
+  const w = wordAt(hex, 0);
+  if (w.length < 64) return null;
+  return "0x" + w.slice(24).toLowerCase();
+}
+
+/** Decodes `string` return values; falls back to bytes32 (old tokens like MKR). */
+export function decodeString(hex: string | null | undefined): string | undefined {
+  if (!hex || hex === "0x") return undefined;
+  const h = hex.replace(/^0x/, "");
+
+  try {
+    if (h.length >= 128) {
+      const offset = Number(BigInt("0x" + h.slice(0, 64))) * 2;
+      const len = Number(BigInt("0x" + h.slice(offset, offset + 64)));
+      const data = h.slice(offset + 64, offset + 64 + len * 2);
+      if (data.length === len * 2) return Buffer.from(data, "hex").toString("utf8");
+    }
+  } catch {
+    // fall through to bytes32
+  }
+
+  const s = Buffer.from(h.slice(0, 64), "hex").toString("utf8").replace(/\u0000+$/g, "");
+  return s || undefined;
+}
+
+export function formatUnits(raw: bigint, decimals: number): number {
+  if (decimals <= 0) return Number(raw);
+  const base = 10n ** BigInt(decimals);
+  return Number(raw / base) + Number(raw % base) / Number(base);
+}
+
+export function isBurnAddress(addr: string) {
+  const a = addr.toLowerCase();
+  return a === ZERO_ADDRESS || a === DEAD_ADDRESS;
+}
+
+/* =========================================================
+   ERC-20 reads
+   ========================================================= */
+
+async function tryCall(chain: EvmChain, to: string, data: string): Promise<string | null> {
+  try {
+    return await evmCall(chain, to, data);
+  } catch {
+    return null;
+  }
+}
+
+export type Erc20Meta = {
+  name?: string;
+  symbol?: string;
+  decimals: number;
+  totalSupplyRaw: bigint;
+  owner: string | null; // null => no owner() / getOwner()
+};
+
+export async function getErc20Meta(chain: EvmChain, token: string): Promise<Erc20Meta> {
+  const [name, symbol, decimals, supply, owner, getOwner] = await Promise.all([
+    tryCall(chain, token, SEL.name),
+    tryCall(chain, token, SEL.symbol),
+    tryCall(chain, token, SEL.decimals),
+    tryCall(chain, token, SEL.totalSupply),
+    tryCall(chain, token, SEL.owner),
+    tryCall(chain, token, SEL.getOwner),
+  ]);
+
+  const totalSupplyRaw = decodeUint(supply);
+  if (totalSupplyRaw === null) throw new Error("Not an ERC-20 token (totalSupply() failed)");
+
+  return {
+    name: decodeString(name),
+    symbol: decodeString(symbol),
+    decimals: Number(decodeUint(decimals) ?? 18n),
+    totalSupplyRaw,
+    owner: decodeAddress(owner) ?? decodeAddress(getOwner),
+  };
+}
+
+export async function getErc20Balance(chain: EvmChain, token: string, holder: string): Promise<bigint> {
+  const out = await evmCall(chain, token, SEL.balanceOf + padAddress(holder));
+  return decodeUint(out) ?? 0n;
+}
+
+export async function isContract(chain: EvmChain, addr: string): Promise<boolean> {
+  const code = await evmRpc<string>(chain, "eth_getCode", [addr, "latest"]);
+  return Boolean(code && code !== "0x");
+}
+
+/* =========================================================
+   Deploy block (binary search over eth_getCode, needs archive state)
+   ========================================================= */
+
+export async function findDeployBlock(chain: EvmChain, addr: string, latest: number): Promise<number | null> {
+  let lo = 0;
+  let hi = latest;
+
+  // Guard: archive nodes only. Non-archive nodes error out on old blocks.
+  const codeAt = async (b: number) => {
+    const code = await evmRpc<string>(chain, "eth_getCode", [addr, toQuantity(b)]);
+    return Boolean(code && code !== "0x");
+  };
+
+  if (!(await codeAt(hi))) return null;
+
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (await codeAt(mid)) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+}
+
+/* =========================================================
+   Wallet first funding (binary search over balance / nonce, needs archive state)
+   ========================================================= */
+
+// An EOA's balance cannot drop before its first outgoing tx and its nonce never drops after it,
+// so "balance > 0 or nonce > 0" is monotonic over blocks: its first true block is the first funding.
+export async function findFirstFundedBlock(chain: EvmChain, addr: string, latest: number): Promise<number | null> {
+  let lo = 0;
+  let hi = latest;
+
+  const touchedAt = async (b: number) => {
+    const bal = await evmRpc<string>(chain, "eth_getBalance", [addr, toQuantity(b)]);
+    if (BigInt(bal || "0x0") > 0n) return true;
+    const nonce = await evmRpc<string>(chain, "eth_getTransactionCount", [addr, toQuantity(b)]);
+    return BigInt(nonce || "0x0") > 0n;
+  };
+
+  if (!(await touchedAt(hi))) return null;
+
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (await touchedAt(mid)) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+}
+
+// Plain value transfer into addr within a block; internal (contract) transfers are not visible here.
+export async function findFundingTx(
+  chain: EvmChain,
+  addr: string,
+  block: number
+): Promise<{ from: string; hash: string } | null> {
+  const b = await evmRpc<any>(chain, "eth_getBlockByNumber", [toQuantity(block), true]);
+  for (const tx of b?.transactions || []) {
+    if (String(tx?.to || "").toLowerCase() !== addr || BigInt(tx?.value || "0x0") <= 0n) continue;
+    return { from: String(tx.from).toLowerCase(), hash: String(tx.hash || "") };
+  }
+  return null;
+}
+
+/* =========================================================
+   Holder reconstruction from Transfer logs
+   ========================================================= */
+
+export type TransferLog = {
+  from: string;
+  to: string;
+  value: bigint;
+  blockNumber: number;
+  txHash: string;
+};
+
+export type TransferScan = {
+  logs: TransferLog[];
+  fromBlock: number;
+  toBlock: number;
+  complete: boolean; // true when scan started at the deploy block and was not truncated
+};
+
+export async function scanTransferLogs(
+  chain: EvmChain,
+  token: string,
+  opts: { fromBlock: number; toBlock: number; chunk?: number; maxChunks?: number }
+): Promise<TransferScan> {
+  const chunk = opts.chunk ?? Number(process.env.EVM_LOG_CHUNK || 5_000);
+  const maxChunks = opts.maxChunks ?? Number(process.env.EVM_LOG_MAX_CHUNKS || 40);
+
+  const logs: TransferLog[] = [];
+  let start = opts.fromBlock;
+  let chunks = 0;
+
+  while (start <= opts.toBlock && chunks < maxChunks) {
+    const end = Math.min(opts.toBlock, start + chunk - 1);
+    const raw = await evmRpc<any[]>(chain, "eth_getLogs", [
+      {
+        address: token,
+        topics: [TRANSFER_TOPIC],
+        fromBlock: toQuantity(start),
+        toBlock: toQuantity(end),
+      },
+    ]);
+
+    for (const l of raw || []) {
+      const topics: string[] = l?.topics || [];
+      if (topics.length < 3) continue; // ERC-721 style / malformed
+      logs.push({
+        from: "0x" + topics[1].slice(26).toLowerCase(),
+        to: "0x" + topics[2].slice(26).toLowerCase(),
+        value: decodeUint(l.data) ?? 0n,
+        blockNumber: Number(BigInt(l.blockNumber)),
+        txHash: String(l.transactionHash || ""),
+      });
+    }
+
+    start = end + 1;
+    chunks++;
+  }
+
+  return {
+    logs,
+    fromBlock: opts.fromBlock,
+    toBlock: Math.min(opts.toBlock, start - 1),
+    complete: start > opts.toBlock,
+  };
+}
+
+export function balancesFromLogs(logs: TransferLog[]): Map<string, bigint> {
+  const bal = new Map<string, bigint>();
+  for (const l of logs) {
+    if (l.from !== ZERO_ADDRESS) bal.set(l.from, (bal.get(l.from) ?? 0n) - l.value);
+    bal.set(l.to, (bal.get(l.to) ?? 0n) + l.value);
+  }
+  return bal;
+}
+
+export async function getTxSender(chain: EvmChain, txHash: string): Promise<string | null> {
+  const tx = await evmRpc<any>(chain, "eth_getTransactionByHash", [txHash]);
+  return tx?.from ? String(tx.from).toLowerCase() : null;
+}
@@ -10,3 +10,8 @@ export function explorerToken(chain: Chain, token: string): string {
   if (chain === "eth") return `https://etherscan.io/token/${token}`;
   return `https://bscscan.com/token/${token}`;
 }
+export function explorerTx(chain: Chain, tx: string): string {
+  if (chain === "sol") return `https://solscan.io/tx/${tx}`;
+  if (chain === "eth") return `https://etherscan.io/tx/${tx}`;
+  return `https://bscscan.com/tx/${tx}`;
+}
@@ -0,0 +1,12 @@
+// lib/fingerprint.ts
+// Anonymous requester fingerprint (ip + user agent + salt) — flag rate limits and watchlist ownership.
+
+import crypto from "crypto";
+import type { NextApiRequest } from "next";
+
+export function fingerprint(req: NextApiRequest): string {
+  const ip = (req.headers["x-forwarded-for"] as string)?.split(",")[0]?.trim() || req.socket.remoteAddress || "unknown";
+  const ua = req.headers["user-agent"] || "unknown";
+  const salt = process.env.FP_SALT || "pumpguard_salt_v0";
+  return crypto.createHash("sha256").update(`${ip}|${ua}|${salt}`).digest("hex");
+}
@@ -0,0 +1,130 @@
+// lib/flags.ts
+// Community flags (Supabase `flags` table) — shared by /api/flags, /api/flag, scoring and the Telegram bot.
+
+import { getSupabaseAdmin } from "./supabaseAdmin";
+import type { Chain } from "./types";
+
+export type FlagType = "RUGGED" | "SUS" | "TRUSTED";
+
+export type FlagSummary = {
+  rugged: number;
+  sus: number;
+  trusted: number;
+  recent: { type: FlagType; reason?: string; ts: string }[];
+};
+
+/** Returns null when Supabase is not configured. Throws on query errors. */
+export async function fetchFlagSummary(
+  chain: Chain,
+  target_type: string,
+  target_address: string
+): Promise<FlagSummary | null> {
+  const sb = getSupabaseAdmin();
+  if (!sb) return null;
+
+  const { data, error } = await sb
+    .from("flags")
+    .select("flag_type, reason, created_at")
+    .eq("chain", chain)
+    .eq("target_type", target_type)
+    .eq("target_address", target_address)
+    .order("created_at", { ascending: false })
+    .limit(20);
+
+  if (error) throw new Error(error.message);
+
+  const recent = (data ?? []).map((r: any) => ({ type: r.flag_type, reason: r.reason ?? "", ts: r.created_at }));
+  const count = (t: string) => (data ?? []).filter((r: any) => r.flag_type === t).length;
+
+  return { rugged: count("RUGGED"), sus: count("SUS"), trusted: count("TRUSTED"), recent };
+}
+
+export type FlagInput = {
+  chain: Chain;
+  target_type: string;
+  target_address: string;
+  flag_type: FlagType;
+  reason?: string;
+};
+
+/** Inserts a flag; one flag per fingerprint per target per day. */
+export async function submitFlag(
+  f: FlagInput,
+  fingerprint_hash: string
+): Promise<{ ok: true } | { ok: false; status: number; error: string }> {
+  const sb = getSupabaseAdmin();
+  if (!sb) return { ok: false, status: 400, error: "Supabase not configured" };
+
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: existing, error: e1 } = await sb
+    .from("flags")
+    .select("id")
+    .eq("chain", f.chain)
+    .eq("target_type", f.target_type)
+    .eq("target_address", f.target_address)
+    .eq("fingerprint_hash", fingerprint_hash)
+    .gte("created_at", since)
+    .limit(1);
+
+  if (e1) return { ok: false, status: 500, error: e1.message };
+  if (existing && existing.length > 0) return { ok: false, status: 429, error: "Rate limit: one flag per day for this target" };
+
+  const reason = typeof f.reason === "string" ? f.reason.slice(0, 240) : "";
+  const { error } = await sb.from("flags").insert({ ...f, reason, fingerprint_hash });
+  if (error) return { ok: false, status: 500, error: error.message };
+
+  return { ok: true };
+}
+
+export type FlaggedTarget = {
+  chain: Chain;
+  target_address: string;
+  rugged: number;
+  sus: number;
+  trusted: number;
+  first_rugged_at: number | null; // ms
+  first_trusted_at: number | null;
+};
+
+/** Every flagged target of a type (newest `limit` flags), aggregated per target. Returns null when Supabase is not configured. */
+export async function fetchFlaggedTargets(
+  target_type: string,
+  opts: { chain?: Chain; limit?: number } = {}
+): Promise<FlaggedTarget[] | null> {
+  const sb = getSupabaseAdmin();
+  if (!sb) return null;
+
+  let q = sb
+    .from("flags")
+    .select("chain, target_address, flag_type, created_at")
+    .eq("target_type", target_type)
+    .order("created_at", { ascending: false })
+    .limit(opts.limit ?? 5000);
+  if (opts.chain) q = q.eq("chain", opts.chain);
+
+  const { data, error } = await q;
+  if (error) throw new Error(error.message);
+
+  const byTarget = new Map<string, FlaggedTarget>();
+  for (const r of data ?? []) {
+    const key = `${r.chain}:${r.target_address}`;
+    const t =
+      byTarget.get(key) ??
+      { chain: r.chain, target_address: r.target_address, rugged: 0, sus: 0, trusted: 0, first_rugged_at: null, first_trusted_at: null };
+    byTarget.set(key, t);
+
+    const ts = Date.parse(r.created_at);
+    if (r.flag_type === "RUGGED") {
+      t.rugged++;
+      t.first_rugged_at = t.first_rugged_at === null ? ts : Math.min(t.first_rugged_at, ts);
+    } else if (r.flag_type === "TRUSTED") {
+      t.trusted++;
+      t.first_trusted_at = t.first_trusted_at === null ? ts : Math.min(t.first_trusted_at, ts);
+    } else if (r.flag_type === "SUS") {
+      t.sus++;
+    }
+  }
+
+  return Array.from(byTarget.values());
+}
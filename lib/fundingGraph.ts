@@ -0,0 +1,207 @@
+// lib/fundingGraph.ts
+// Multi-hop SOL funding graph for early buyers. Each buyer is traced back up to
+// MAX_HOPS funders (exchange hot wallets stop the trace); buyers that share an
+// ancestor — or fund each other — are merged into one cluster. Each hop looks up
+// all buyers in parallel (under the Helius limiter); past the deadline the graph
+// is built from what was traced so far (`partial`).
+
+import { Connection, PublicKey } from "@solana/web3.js";
+import { heliusEnhancedTxByAddress } from "./helius";
+import type { FundingCluster } from "./types";
+import { exchangeLabel } from "./labels";
+
+const MAX_HOPS = 3;
+const MAX_BUYERS = 15;
+const MAX_LOOKUPS = 45; // Helius calls budget per graph
+const MIN_FUNDING_LAMPORTS = 10_000_000; // 0.01 SOL (ignore dust / rent top-ups)
+
+export type FundingEdge = { from: string; to: string; lamports: number; sig?: string; ts?: number };
+
+export type FundingGraph = {
+  edges: FundingEdge[];
+  clusters: FundingCluster[]; // size >= 2, largest first
+  buyers_traced: number;
+  lookups: number;
+  partial: boolean; // the deadline cut some traces short
+};
+
+const LATE = Symbol("late");
+
+/** Resolves with LATE once `deadline` passes (never, for Infinity). */
+function beforeDeadline<T>(p: Promise<T>, deadline: number): Promise<T | typeof LATE> {
+  if (deadline === Infinity) return p;
+  let t: ReturnType<typeof setTimeout> | undefined;
+  const late = new Promise<typeof LATE>((r) => (t = setTimeout(() => r(LATE), Math.max(0, deadline - Date.now()))));
+  return Promise.race([p, late]).finally(() => clearTimeout(t));
+}
+
+type Lookup = (addr: string, beforeTs?: number) => Promise<FundingEdge | null>;
+
+/* =========================================================
+   Funder lookup
+   ========================================================= */
+
+/** First meaningful incoming SOL transfer (optionally before `beforeTs`). */
+function makeFunderLookup(budget: { used: number }): Lookup {
+  const memo = new Map<string, Promise<FundingEdge | null>>();
+
+  return (addr, beforeTs) => {
+    const key = `${addr}:${beforeTs ?? ""}`;
+    const hit = memo.get(key);
+    if (hit) return hit;
+
+    const p = (async () => {
+      if (budget.used >= MAX_LOOKUPS) return null;
+      budget.used++;
+
+      const txs = await heliusEnhancedTxByAddress(addr, { limit: 50, sortOrder: "asc" });
+      for (const tx of txs) {
+        if (beforeTs && typeof tx.timestamp === "number" && tx.timestamp > beforeTs) break;
+        for (const nt of tx.nativeTransfers ?? []) {
+          if (nt?.toUserAccount !== addr || !nt.fromUserAccount || nt.fromUserAccount === addr) continue;
+          if ((nt.amount ?? 0) < MIN_FUNDING_LAMPORTS) continue;
+          return { from: nt.fromUserAccount, to: addr, lamports: nt.amount ?? 0, sig: tx.signature, ts: tx.timestamp };
+        }
+      }
+      return null;
+    })().catch(() => null);
+
+    memo.set(key, p);
+    return p;
+  };
+}
+
+/* =========================================================
+   Union-find
+   ========================================================= */
+
+function makeUnionFind(items: string[]) {
+  const parent = new Map(items.map((x) => [x, x]));
+  const find = (x: string): string => {
+    const p = parent.get(x)!;
+    if (p === x) return x;
+    const r = find(p);
+    parent.set(x, r);
+    return r;
+  };
+  const union = (a: string, b: string) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent.set(ra, rb);
+  };
+  return { find, union };
+}
+
+/* =========================================================
+   Public API
+   ========================================================= */
+
+async function holdingsPct(conn: Connection, mint: string, wallets: string[], supplyUi: number | null) {
+  const out = new Map<string, number>();
+  if (!supplyUi || supplyUi <= 0) return out;
+
+  const mintPk = new PublicKey(mint);
+  await Promise.all(
+    wallets.map(async (w) => {
+      try {
+        const r = await conn.getParsedTokenAccountsByOwner(new PublicKey(w), { mint: mintPk });
+        let ui = 0;
+        for (const acc of r.value as any[]) ui += acc?.account?.data?.parsed?.info?.tokenAmount?.uiAmount ?? 0;
+        out.set(w, (ui / supplyUi) * 100);
+      } catch {}
+    })
+  );
+  return out;
+}
+
+/** `timeoutMs`: past it, lookups still in flight are dropped and clusters come from the traces so far. */
+export async function buildFundingGraph(
+  conn: Connection,
+  mint: string,
+  buyers: { wallet: string; buy_ts?: number }[],
+  supplyUi: number | null,
+  opts: { timeoutMs?: number } = {}
+): Promise<FundingGraph> {
+  const deadline = opts.timeoutMs ? Date.now() + opts.timeoutMs : Infinity;
+  const sample = buyers.slice(0, MAX_BUYERS);
+  const budget = { used: 0 };
+  const lookup = makeFunderLookup(budget);
+  let partial = false;
+
+  const edges: FundingEdge[] = [];
+  const ancestors = new Map<string, FundingEdge[]>(sample.map((b) => [b.wallet, []])); // buyer -> funding chain
+
+  // one hop for every buyer still being traced, in parallel
+  let tracing = sample.map((b) => ({ buyer: b.wallet, cur: b.wallet, beforeTs: b.buy_ts }));
+  for (let hop = 0; hop < MAX_HOPS && tracing.length; hop++) {
+    const found = await Promise.all(tracing.map((t) => beforeDeadline(lookup(t.cur, t.beforeTs), deadline)));
+
+    const next: typeof tracing = [];
+    tracing.forEach((t, i) => {
+      const e = found[i];
+      if (e === LATE) {
+        partial = true;
+        return;
+      }
+      if (!e) return;
+      edges.push(e);
+      if (exchangeLabel(e.from)) return; // CEX hot wallets fund everyone: not a shared owner
+      ancestors.get(t.buyer)!.push(e);
+      next.push({ buyer: t.buyer, cur: e.from, beforeTs: e.ts });
+    });
+    tracing = next;
+  }
+
+  // Merge buyers sharing any (non-exchange) ancestor, or funded by another buyer
+  const wallets = sample.map((b) => b.wallet);
+  const uf = makeUnionFind(wallets);
+  const ancestorOwner = new Map<string, string>();
+  const buyerSet = new Set(wallets);
+
+  for (const [buyer, chain] of ancestors.entries()) {
+    for (const e of chain) {
+      if (buyerSet.has(e.from)) uf.union(buyer, e.from);
+      const prev = ancestorOwner.get(e.from);
+      if (prev) uf.union(buyer, prev);
+      else ancestorOwner.set(e.from, buyer);
+    }
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const w of wallets) {
+    const r = uf.find(w);
+    groups.set(r, [...(groups.get(r) ?? []), w]);
+  }
+
+  const multi = Array.from(groups.values()).filter((g) => g.length >= 2);
+  const held = await beforeDeadline(holdingsPct(conn, mint, multi.flat(), supplyUi), deadline);
+  if (held === LATE) partial = true;
+  const pct = held === LATE ? new Map<string, number>() : held;
+
+  const clusters: FundingCluster[] = multi.map((g) => {
+    const chains = g.map((w) => ancestors.get(w) ?? []);
+    const counts = new Map<string, number>();
+    for (const c of chains) for (const a of new Set(c.map((e) => e.from))) counts.set(a, (counts.get(a) ?? 0) + 1);
+
+    const shared = Array.from(counts.entries())
+      .filter(([, n]) => n >= 2)
+      .map(([a]) => a);
+    const sigs = chains
+      .flat()
+      .filter((e) => shared.includes(e.from) || g.includes(e.from))
+      .map((e) => e.sig)
+      .filter((x): x is string => Boolean(x));
+
+    const known = g.filter((w) => pct.has(w));
+    return {
+      wallets: g,
+      shared_ancestors: shared,
+      supply_pct: known.length ? known.reduce((a, w) => a + (pct.get(w) ?? 0), 0) : null,
+      proof_sigs: Array.from(new Set(sigs)).slice(0, 5),
+    };
+  });
+
+  clusters.sort((a, b) => b.wallets.length - a.wallets.length || (b.supply_pct ?? 0) - (a.supply_pct ?? 0));
+
+  return { edges, clusters, buyers_traced: sample.length, lookups: budget.used, partial };
+}
@@ -0,0 +1,56 @@
+// lib/helius.ts
+// Helius Enhanced Transactions (parsed history by address).
+
+import { providerFetch } from "./limiter";
+
+export type HeliusEnhancedTx = {
+  signature?: string;
+  timestamp?: number; // seconds
+  slot?: number;
+  type?: string; // e.g. "SWAP", "CREATE", "TRANSFER"
+  source?: string; // e.g. "PUMP_FUN", "RAYDIUM"
+  feePayer?: string;
+  nativeTransfers?: Array<{
+    fromUserAccount?: string;
+    toUserAccount?: string;
+    amount?: number; // lamports
+  }>;
+  tokenTransfers?: Array<{
+    mint?: string;
+    fromUserAccount?: string;
+    toUserAccount?: string;
+    tokenAmount?: number; // ui amount (usually)
+  }>;
+};
+
+export type EnhancedTxQuery = {
+  limit: number; // max 100
+  sortOrder?: "asc" | "desc";
+  before?: string;
+  type?: string;
+};
+
+export async function heliusEnhancedTxByAddress(address: string, q: EnhancedTxQuery): Promise<HeliusEnhancedTx[]> {
+  const apiKey = process.env.HELIUS_API_KEY;
+  if (!apiKey) throw new Error("Missing HELIUS_API_KEY");
+
+  const params = new URLSearchParams({ "api-key": apiKey, limit: String(q.limit) });
+  if (q.sortOrder) params.set("sort-order", q.sortOrder);
+  if (q.before) params.set("before", q.before);
+  if (q.type) params.set("type", q.type);
+
+  const url = `https://api-mainnet.helius-rpc.com/v0/addresses/${address}/transactions?${params.toString()}`;
+
+  const resp = await providerFetch("helius", url, { headers: { accept: "application/json" } });
+  if (!resp.ok) {
+    const txt = await resp.text();
+    throw new Error(`Helius enhanced tx error ${resp.status}: ${txt.slice(0, 200)}`);
+  }
+
+  const j = (await resp.json()) as any[];
+  return Array.isArray(j) ? (j as HeliusEnhancedTx[]) : [];
+}
+
+export async function heliusEnhancedTxByAddressAsc(address: string, limit: number): Promise<HeliusEnhancedTx[]> {
+  return heliusEnhancedTxByAddress(address, { limit, sortOrder: "asc" });
+}
@@ -0,0 +1,220 @@
+// lib/history.ts
+// Score history: every computed /api/score response and /api/score_deep signal set is stored as a timestamped
+// snapshot (Supabase `score_snapshots`, or a local JSONL file per target) so a token's risk can be followed over time.
+
+import fs from "fs";
+import path from "path";
+import { getSupabaseAdmin } from "./supabaseAdmin";
+import type { Chain, InputType, RiskLevel, ScoreResponse, Signal } from "./types";
+
+/*
+  SCORE_HISTORY_DIR=.cache/score-history   (local store, used when Supabase is not configured)
+*/
+
+const LOCAL_DIR = process.env.SCORE_HISTORY_DIR || path.join(".cache", "score-history");
+const MAX_POINTS = 500;
+
+export type SnapshotKind = "score" | "deep";
+
+export type HistorySignal = { id: string; weight: number; label: string };
+
+export type ScoreSnapshot = {
+  id: string;
+  chain: Chain;
+  input_type: InputType;
+  address: string;
+  kind: SnapshotKind;
+  ts: number;
+  score: number | null; // deep snapshots carry signals only
+  level: RiskLevel | null;
+  signals: HistorySignal[];
+  model_version: string | null; // risk model that produced it (null: recorded before versioning)
+  payload?: any; // full ScoreResponse / deep response (only with `full`)
+};
+
+export type HistoryPoint = ScoreSnapshot & {
+  added: string[]; // signal ids vs the previous snapshot of the same kind
+  removed: string[];
+};
+
+type Target = { chain: Chain; input_type: InputType; address: string };
+
+/* =========================================================
+   Helpers
+   ========================================================= */
+
+function normAddress(chain: Chain, address: string) {
+  return chain === "sol" ? address.trim() : address.trim().toLowerCase();
+}
+
+// also guards the local store, where the address becomes part of a file name
+function isAddressLike(chain: Chain, address: string) {
+  return chain === "sol"
+    ? /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address) // base58
+    : /^0x[0-9a-fA-F]{40}$/.test(address);
+}
+
+function compactSignals(signals: Signal[] | undefined): HistorySignal[] {
+  return (signals ?? []).map((s) => ({ id: s.id, weight: s.weight, label: s.label }));
+}
+
+/* =========================================================
+   Local store: <dir>/<chain>/<input_type>-<address>.jsonl
+   ========================================================= */
+
+function localFile(t: Target) {
+  return path.join(LOCAL_DIR, t.chain, `${t.input_type}-${t.address}.jsonl`);
+}
+
+function localAppend(s: ScoreSnapshot) {
+  const file = localFile(s);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(file, JSON.stringify(s) + "\n");
+}
+
+function localRead(t: Target, sinceTs: number, untilTs: number, limit: number): ScoreSnapshot[] {
+  const file = localFile(t);
+  if (!fs.existsSync(file)) return [];
+
+  const out: ScoreSnapshot[] = [];
+  for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+    if (!line) continue;
+    try {
+      const s = JSON.parse(line) as ScoreSnapshot;
+      if (s.ts >= sinceTs && s.ts <= untilTs) out.push({ ...s, model_version: s.model_version ?? null });
+    } catch {}
+  }
+  return out.slice(-limit);
+}
+
+/* =========================================================
+   Write
+   ========================================================= */
+
+async function saveSnapshot(s: Omit<ScoreSnapshot, "id">): Promise<void> {
+  if (!isAddressLike(s.chain, s.address)) return;
+
+  const sb = getSupabaseAdmin();
+  if (!sb) {
+    localAppend({ ...s, id: `${s.kind}-${s.ts}` });
+    return;
+  }
+
+  const { error } = await sb.from("score_snapshots").insert({
+    chain: s.chain,
+    input_type: s.input_type,
+    address: s.address,
+    kind: s.kind,
+    score: s.score,
+    level: s.level,
+    signals: s.signals,
+    model_version: s.model_version,
+    payload: s.payload ?? null,
+    created_at: new Date(s.ts).toISOString(),
+  });
+  if (error) throw new Error(error.message);
+}
+
+/** DEMO (fallback) responses are not recorded: they would show up as fake level changes. */
+export async function recordScoreSnapshot(r: ScoreResponse, address: string): Promise<void> {
+  if (r.risk.mode !== "LIVE") return;
+  await saveSnapshot({
+    chain: r.chain,
+    input_type: r.input_type,
+    address: normAddress(r.chain, address),
+    kind: "score",
+    ts: Date.now(),
+    score: r.risk.score,
+    level: r.risk.level,
+    signals: compactSignals(r.signals),
+    model_version: r.model_version,
+    payload: r,
+  });
+}
+
+export async function recordDeepSnapshot(
+  chain: Chain,
+  address: string,
+  deep: { signals?: Signal[]; model_version?: string }
+): Promise<void> {
+  await saveSnapshot({
+    chain,
+    input_type: "token",
+    address: normAddress(chain, address),
+    kind: "deep",
+    ts: Date.now(),
+    score: null,
+    level: null,
+    signals: compactSignals(deep.signals),
+    model_version: deep.model_version ?? null,
+    payload: deep,
+  });
+}
+
+/* =========================================================
+   Read
+   ========================================================= */
+
+/** Oldest first, at most `limit` (newest) snapshots between `sinceTs` and `untilTs` (inclusive). */
+export async function loadHistory(
+  target: Target,
+  opts: { sinceTs?: number; untilTs?: number; limit?: number; full?: boolean } = {}
+): Promise<ScoreSnapshot[]> {
+  const t = { ...target, address: normAddress(target.chain, target.address) };
+  if (!isAddressLike(t.chain, t.address)) return [];
+
+  const sinceTs = opts.sinceTs ?? 0;
+  const untilTs = opts.untilTs ?? Infinity;
+  const limit = Math.max(1, Math.min(MAX_POINTS, opts.limit ?? MAX_POINTS));
+
+  let rows: ScoreSnapshot[];
+  const sb = getSupabaseAdmin();
+  if (!sb) {
+    rows = localRead(t, sinceTs, untilTs, limit);
+  } else {
+    const cols = "id, kind, score, level, signals, model_version, created_at" + (opts.full ? ", payload" : "");
+    let q = sb
+      .from("score_snapshots")
+      .select(cols)
+      .eq("chain", t.chain)
+      .eq("input_type", t.input_type)
+      .eq("address", t.address)
+      .gte("created_at", new Date(sinceTs).toISOString());
+    if (Number.isFinite(untilTs)) q = q.lte("created_at", new Date(untilTs).toISOString());
+    const { data, error } = await q.order("created_at", { ascending: false }).limit(limit);
+    if (error) throw new Error(error.message);
+
+    rows = (data ?? [])
+      .map((r: any) => ({
+        id: String(r.id),
+        ...t,
+        kind: r.kind,
+        ts: Date.parse(r.created_at),
+        score: r.score ?? null,
+        level: r.level ?? null,
+        signals: Array.isArray(r.signals) ? r.signals : [],
+        model_version: r.model_version ?? null,
+        payload: r.payload ?? undefined,
+      }))
+      .reverse();
+  }
+
+  return opts.full ? rows : rows.map(({ payload, ...rest }) => rest);
+}
+
+/** Marks, per kind, which signal ids appeared / disappeared since the previous snapshot. */
+export function historyPoints(snapshots: ScoreSnapshot[]): HistoryPoint[] {
+  const prev: Partial<Record<SnapshotKind, Set<string>>> = {};
+
+  return snapshots.map((s) => {
+    const ids = new Set(s.signals.map((x) => x.id));
+    const before = prev[s.kind];
+    prev[s.kind] = ids;
+
+    return {
+      ...s,
+      added: before ? Array.from(ids).filter((id) => !before.has(id)) : [],
+      removed: before ? Array.from(before).filter((id) => !ids.has(id)) : [],
+    };
+  });
+}
@@ -0,0 +1,179 @@
+// lib/holderScan.ts
+// Incremental holder count (Helius getTokenAccounts, one page per step). The running job (cursor + owner balances) is
+// kept in process memory: the owner map grows with the holder count and does not fit the size-capped cache, so
+// GET /api/holders advances it across requests on the same instance. Only the final count goes to the "holders" cache.
+
+import { cacheSet } from "./cache";
+import { saveHolderSnapshot } from "./holderSnapshots";
+import { providerFetch, withBudgetLane } from "./limiter";
+
+const PAGE_LIMIT = 1000;
+const JOB_TTL_MS = 10 * 60_000; // restart zombie jobs
+
+/* =========================================================
+   Helius RPC helper
+   ========================================================= */
+
+async function heliusRpc<T>(body: any): Promise<T> {
+  const apiKey = process.env.HELIUS_API_KEY;
+  if (!apiKey) throw new Error("Missing HELIUS_API_KEY");
+
+  const url = `https://mainnet.helius-rpc.com/?api-key=${apiKey}`;
+  const resp = await providerFetch("helius", url, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  if (!resp.ok) {
+    const txt = await resp.text();
+    throw new Error(`Helius RPC error ${resp.status}: ${txt.slice(0, 200)}`);
+  }
+
+  // raw amounts can exceed 2^53: keep their digits as strings
+  const j = JSON.parse((await resp.text()).replace(/"amount"\s*:\s*(\d+)/g, '"amount":"$1"'));
+  if (j?.error) throw new Error(j.error?.message || "Helius RPC returned error");
+  return j?.result as T;
+}
+
+/* =========================================================
+   Types
+   ========================================================= */
+
+type TokenAccountsResp = {
+  token_accounts?: Array<{ owner?: string; amount?: string }>;
+  cursor?: string;
+};
+
+type HoldersJob = {
+  owners: Map<string, bigint>; // owner -> raw balance, summed over token accounts
+  cursor?: string;
+  pages: number;
+  startedAt: number;
+  updatedAt: number;
+  inflight: Promise<HoldersStep> | null; // page being fetched; concurrent steps share it
+};
+
+export type HoldersStep =
+  | { status: "running"; pages: number; holders_so_far: number; scanned_accounts: number }
+  | {
+      status: "done";
+      holders: number;
+      pages: number;
+      scanned_accounts: number;
+      snapshot_id: string | null;
+      snapshot_error?: string;
+    }
+  | { status: "expired"; hint: string }
+  | { status: "reset" }
+  | { status: "error"; error: string };
+
+/* =========================================================
+   Step
+   ========================================================= */
+
+// one job per mint per process (survives dev hot reloads)
+const g = globalThis as any;
+const jobs: Map<string, HoldersJob> = g.__PG_HOLDER_JOBS ?? (g.__PG_HOLDER_JOBS = new Map());
+
+/**
+ * One job step for `mint`: "start" restarts the job, "step" fetches the next page (starting a job if none is running),
+ * "reset" drops it. A step while another caller's page is still being fetched returns that page's result.
+ */
+export async function holdersStep(mint: string, action: "start" | "step" | "reset" = "step"): Promise<HoldersStep> {
+  if (action === "reset") {
+    jobs.delete(mint);
+    return { status: "reset" };
+  }
+
+  // abandoned jobs (client stopped stepping) are dropped once they are past the TTL
+  for (const [m, j] of Array.from(jobs)) if (m !== mint && Date.now() - j.startedAt > JOB_TTL_MS) jobs.delete(m);
+
+  // Init state if missing OR explicit start
+  let job = jobs.get(mint);
+  if (!job || action === "start") {
+    const now = Date.now();
+    job = { owners: new Map(), cursor: undefined, pages: 0, startedAt: now, updatedAt: now, inflight: null };
+    jobs.set(mint, job);
+  }
+  if (job.inflight) return job.inflight;
+
+  if (Date.now() - job.startedAt > JOB_TTL_MS) {
+    jobs.delete(mint);
+    return { status: "expired", hint: "Restart holders job" };
+  }
+
+  const running = job;
+  // full scans are the heaviest Helius consumer: they share the deep lane so base scores keep their part of the budget
+  running.inflight = withBudgetLane("deep", () => nextPage(mint, running)).finally(() => {
+    running.inflight = null;
+  });
+  return running.inflight;
+}
+
+async function nextPage(mint: string, job: HoldersJob): Promise<HoldersStep> {
+  try {
+    const page = await heliusRpc<TokenAccountsResp>({
+      jsonrpc: "2.0",
+      id: `holders-step-${job.pages}`,
+      method: "getTokenAccounts",
+      params: {
+        mint,
+        limit: PAGE_LIMIT,
+        cursor: job.cursor,
+      },
+    });
+
+    // restarted or reset while this page was in flight: it belongs to the old job
+    if (jobs.get(mint) !== job) return { status: "reset" };
+
+    const arr = page?.token_accounts ?? [];
+    for (const ta of arr) {
+      const amount = BigInt(ta?.amount ?? 0);
+      if (ta?.owner && amount > 0n) job.owners.set(ta.owner, (job.owners.get(ta.owner) ?? 0n) + amount);
+    }
+
+    job.pages += 1;
+    job.updatedAt = Date.now();
+
+    // done if no cursor OR empty page
+    const done = !page?.cursor || arr.length === 0;
+
+    if (done) {
+      jobs.delete(mint);
+      const holders = job.owners.size;
+
+      // full snapshot (owner + balance) for /api/holders_diff; a storage failure must not fail the scan
+      let snapshot_id: string | null = null;
+      let snapshot_error: string | undefined;
+      try {
+        snapshot_id = (await saveHolderSnapshot(mint, job.owners)).id;
+      } catch (e: any) {
+        snapshot_error = String(e?.message || e);
+      }
+
+      // store final cached value separately for quick reuse
+      await cacheSet("holders", `final:${mint}`, { holders, ts: Date.now(), snapshot_id });
+
+      return {
+        status: "done",
+        holders,
+        pages: job.pages,
+        scanned_accounts: job.pages * PAGE_LIMIT,
+        snapshot_id,
+        ...(snapshot_error ? { snapshot_error } : {}),
+      };
+    }
+
+    job.cursor = page.cursor;
+
+    return {
+      status: "running",
+      pages: job.pages,
+      holders_so_far: job.owners.size,
+      scanned_accounts: job.pages * PAGE_LIMIT,
+    };
+  } catch (e: any) {
+    return { status: "error", error: String(e?.message || e) };
+  }
+}
@@ -0,0 +1,292 @@
+// lib/holderSnapshots.ts
+// Full holder snapshots (owner -> balance) taken when an /api/holders scan completes, stored gzip-compressed
+// in Supabase (`holder_snapshots`) or on local disk, plus diffing of two snapshots (entered / exited / top holders).
+
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import { getSupabaseAdmin } from "./supabaseAdmin";
+
+/*
+  HOLDER_SNAPSHOT_DIR=.cache/holder-snapshots   (local store, used when Supabase is not configured)
+*/
+
+const LOCAL_DIR = process.env.HOLDER_SNAPSHOT_DIR || path.join(".cache", "holder-snapshots");
+const MAX_LIST = 100;
+
+const TOP_N = 20;
+const DUST_PCT = 0.001; // new holders below this share of supply look like airdropped / bot wallets
+const TOP_SOLD_PCT = 5; // top holders reduced their combined share by more than this (points)
+const FAKE_GROWTH_DUST_SHARE = 0.8; // most of the new holders are dust
+
+// raw amount as a decimal string, summed over the owner's accounts
+export type HolderBalance = [owner: string, amount: string];
+
+export type HolderSnapshotMeta = {
+  id: string;
+  mint: string;
+  ts: number;
+  holders: number;
+  total: string; // sum of held raw amounts (decimal string)
+  store: "supabase" | "local";
+};
+
+export type HolderSnapshot = HolderSnapshotMeta & {
+  balances: HolderBalance[]; // largest first
+};
+
+export type HolderChange = {
+  owner: string;
+  before: string;
+  after: string;
+  before_pct: number;
+  after_pct: number;
+};
+
+export type HolderDiff = {
+  mint: string;
+  from: HolderSnapshotMeta;
+  to: HolderSnapshotMeta;
+  holders_delta: number;
+  entered: { count: number; dust: number; pct: number; top: { owner: string; amount: string; pct: number }[] };
+  exited: { count: number; pct: number; top: { owner: string; amount: string; pct: number }[] };
+  top_holders: {
+    n: number;
+    before_pct: number; // combined share of the top N in `from`
+    after_pct: number; // share of those same wallets in `to`
+    joined: string[]; // new in the top N
+    left: string[]; // dropped out of the top N
+    changes: HolderChange[]; // top N of either snapshot, biggest move first
+  };
+  flags: { distribution_dump: boolean; fake_holder_growth: boolean };
+};
+
+/* =========================================================
+   Encoding
+   ========================================================= */
+
+function encode(balances: HolderBalance[]): Buffer {
+  return zlib.gzipSync(Buffer.from(JSON.stringify(balances)));
+}
+
+function decode(buf: Buffer): HolderBalance[] {
+  return JSON.parse(zlib.gunzipSync(buf).toString("utf8"));
+}
+
+function isMintLike(mint: string) {
+  return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(mint);
+}
+
+/* =========================================================
+   Local store: <dir>/<mint>/<ts>.json.gz (+ <ts>.meta.json for listing)
+   ========================================================= */
+
+function localPath(mint: string, file?: string) {
+  const dir = path.join(LOCAL_DIR, mint);
+  return file ? path.join(dir, file) : dir;
+}
+
+function localSave(snap: Omit<HolderSnapshot, "id" | "store">): HolderSnapshotMeta {
+  const id = String(snap.ts);
+  const m: HolderSnapshotMeta = { id, mint: snap.mint, ts: snap.ts, holders: snap.holders, total: snap.total, store: "local" };
+  fs.mkdirSync(localPath(snap.mint), { recursive: true });
+  fs.writeFileSync(localPath(snap.mint, `${id}.json.gz`), encode(snap.balances));
+  fs.writeFileSync(localPath(snap.mint, `${id}.meta.json`), JSON.stringify(m));
+  return m;
+}
+
+function localLoad(mint: string, id: string): HolderSnapshot | null {
+  if (!/^\d+$/.test(id)) return null;
+  const file = localPath(mint, `${id}.json.gz`);
+  if (!fs.existsSync(file)) return null;
+
+  const balances = decode(fs.readFileSync(file));
+  return { ...summarize(balances), id, mint, ts: Number(id), store: "local", balances };
+}
+
+function localList(mint: string, limit: number): HolderSnapshotMeta[] {
+  const dir = localPath(mint);
+  if (!fs.existsSync(dir)) return [];
+
+  const ids = fs
+    .readdirSync(dir)
+    .map((f) => f.match(/^(\d+)\.meta\.json$/)?.[1])
+    .filter((x): x is string => Boolean(x))
+    .sort((a, b) => Number(b) - Number(a))
+    .slice(0, limit);
+
+  const out: HolderSnapshotMeta[] = [];
+  for (const id of ids) {
+    try {
+      out.push(JSON.parse(fs.readFileSync(localPath(mint, `${id}.meta.json`), "utf8")));
+    } catch {}
+  }
+  return out;
+}
+
+/* =========================================================
+   Public API
+   ========================================================= */
+
+function summarize(balances: HolderBalance[]) {
+  return { holders: balances.length, total: balances.reduce((a, [, amt]) => a + BigInt(amt), 0n).toString() };
+}
+
+/** Stores a snapshot from an owner -> raw amount map (zero balances dropped). */
+export async function saveHolderSnapshot(mint: string, owners: Map<string, bigint>): Promise<HolderSnapshotMeta> {
+  if (!isMintLike(mint)) throw new Error("Invalid mint");
+
+  const balances: HolderBalance[] = Array.from(owners)
+    .filter(([, amt]) => amt > 0n)
+    .sort((a, b) => (b[1] > a[1] ? 1 : b[1] < a[1] ? -1 : 0))
+    .map(([owner, amt]) => [owner, amt.toString()]);
+  const { holders, total } = summarize(balances);
+  const ts = Date.now();
+
+  const sb = getSupabaseAdmin();
+  if (!sb) return localSave({ mint, ts, holders, total, balances });
+
+  const { data, error } = await sb
+    .from("holder_snapshots")
+    .insert({
+      mint,
+      holders,
+      total,
+      balances_gz: encode(balances).toString("base64"),
+      created_at: new Date(ts).toISOString(),
+    })
+    .select("id")
+    .single();
+  if (error) throw new Error(error.message);
+
+  return { id: String(data.id), mint, ts, holders, total, store: "supabase" };
+}
+
+/** Newest first. */
+export async function listHolderSnapshots(mint: string, limit = 20): Promise<HolderSnapshotMeta[]> {
+  if (!isMintLike(mint)) return [];
+  const n = Math.max(1, Math.min(MAX_LIST, limit));
+
+  const sb = getSupabaseAdmin();
+  if (!sb) return localList(mint, n);
+
+  const { data, error } = await sb
+    .from("holder_snapshots")
+    .select("id, holders, total::text, created_at") // numeric as text: raw totals exceed JSON number precision
+    .eq("mint", mint)
+    .order("created_at", { ascending: false })
+    .limit(n);
+  if (error) throw new Error(error.message);
+
+  return (data ?? []).map((r: any) => ({
+    id: String(r.id),
+    mint,
+    ts: Date.parse(r.created_at),
+    holders: Number(r.holders ?? 0),
+    total: String(r.total ?? "0"),
+    store: "supabase" as const,
+  }));
+}
+
+export async function loadHolderSnapshot(mint: string, id: string): Promise<HolderSnapshot | null> {
+  if (!isMintLike(mint)) return null;
+
+  const sb = getSupabaseAdmin();
+  if (!sb) return localLoad(mint, id);
+
+  const { data, error } = await sb
+    .from("holder_snapshots")
+    .select("id, holders, total, balances_gz, created_at")
+    .eq("mint", mint)
+    .eq("id", id)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+
+  const balances = decode(Buffer.from(data.balances_gz, "base64"));
+  return { ...summarize(balances), id: String(data.id), mint, ts: Date.parse(data.created_at), store: "supabase", balances };
+}
+
+/* =========================================================
+   Diff
+   ========================================================= */
+
+// percent with 6 decimals; raw amounts can be far beyond Number precision
+function share(part: bigint, total: bigint): number {
+  if (total <= 0n) return 0;
+  return Number((part * 100_000_000n) / total) / 1_000_000;
+}
+
+function meta(s: HolderSnapshot): HolderSnapshotMeta {
+  return { id: s.id, mint: s.mint, ts: s.ts, holders: s.holders, total: s.total, store: s.store };
+}
+
+/** Diff `from` -> `to`. Shares are of each snapshot's own held total. */
+export function diffHolderSnapshots(from: HolderSnapshot, to: HolderSnapshot, topN = TOP_N): HolderDiff {
+  const a = new Map(from.balances.map(([o, amt]) => [o, BigInt(amt)]));
+  const b = new Map(to.balances.map(([o, amt]) => [o, BigInt(amt)]));
+  const totalA = BigInt(from.total);
+  const totalB = BigInt(to.total);
+  const pctA = (amt: bigint) => share(amt, totalA);
+  const pctB = (amt: bigint) => share(amt, totalB);
+
+  const entered = to.balances.filter(([o]) => !a.has(o));
+  const exited = from.balances.filter(([o]) => !b.has(o));
+  const dust = entered.filter(([, amt]) => pctB(BigInt(amt)) < DUST_PCT).length;
+
+  const topA = from.balances.slice(0, topN).map(([o]) => o);
+  const topB = to.balances.slice(0, topN).map(([o]) => o);
+  const topASet = new Set(topA);
+  const topBSet = new Set(topB);
+
+  const beforePct = topA.reduce((s, o) => s + pctA(a.get(o) ?? 0n), 0);
+  const afterPct = topA.reduce((s, o) => s + pctB(b.get(o) ?? 0n), 0);
+
+  const changes: HolderChange[] = Array.from(new Set([...topA, ...topB]))
+    .map((owner) => {
+      const before = a.get(owner) ?? 0n;
+      const after = b.get(owner) ?? 0n;
+      return {
+        owner,
+        before: before.toString(),
+        after: after.toString(),
+        before_pct: pctA(before),
+        after_pct: pctB(after),
+      };
+    })
+    .filter((c) => c.before !== c.after)
+    .sort((x, y) => Math.abs(y.after_pct - y.before_pct) - Math.abs(x.after_pct - x.before_pct));
+
+  const sample = (list: HolderBalance[], pct: (n: bigint) => number) =>
+    list.slice(0, 10).map(([owner, amount]) => ({ owner, amount, pct: pct(BigInt(amount)) }));
+
+  return {
+    mint: to.mint,
+    from: meta(from),
+    to: meta(to),
+    holders_delta: to.holders - from.holders,
+    entered: {
+      count: entered.length,
+      dust,
+      pct: entered.reduce((s, [, amt]) => s + pctB(BigInt(amt)), 0),
+      top: sample(entered, pctB),
+    },
+    exited: {
+      count: exited.length,
+      pct: exited.reduce((s, [, amt]) => s + pctA(BigInt(amt)), 0),
+      top: sample(exited, pctA),
+    },
+    top_holders: {
+      n: topN,
+      before_pct: beforePct,
+      after_pct: afterPct,
+      joined: topB.filter((o) => !topASet.has(o)),
+      left: topA.filter((o) => !topBSet.has(o)),
+      changes,
+    },
+    flags: {
+      distribution_dump: beforePct - afterPct > TOP_SOLD_PCT,
+      fake_holder_growth: entered.length >= 20 && dust / entered.length >= FAKE_GROWTH_DUST_SHARE,
+    },
+  };
+}
@@ -0,0 +1,99 @@
+// lib/holders.ts
+// Top holders: largest token accounts resolved to owner wallets and tagged
+// DEV / LP / EARLY / BURN / UNKNOWN.
+
+import { Connection, PublicKey } from "@solana/web3.js";
+import type { TopHolder } from "./types";
+import { ammVaultLabel, INCINERATOR } from "./labels";
+import { launchpadCurveAccounts } from "./launchpad";
+import type { HeliusEnhancedTx } from "./helius";
+
+export const TOP_HOLDERS_LIMIT = 20;
+export const EARLY_WINDOW_SEC = 10 * 60;
+
+export type LargestAccount = { address: PublicKey; amount: string; uiAmount: number | null };
+
+function isOffCurve(owner: string): boolean {
+  try {
+    return !PublicKey.isOnCurve(new PublicKey(owner).toBytes());
+  } catch {
+    return false;
+  }
+}
+
+/** Wallets that received the mint within `windowSec` of its first tx (Helius asc txs). */
+export function earlyBuyersFromTxs(mint: string, txs: HeliusEnhancedTx[], windowSec = EARLY_WINDOW_SEC): Set<string> {
+  const out = new Set<string>();
+  const launchTs = typeof txs[0]?.timestamp === "number" ? txs[0].timestamp : null;
+  if (!launchTs) return out;
+
+  for (const tx of txs) {
+    const ts = typeof tx.timestamp === "number" ? tx.timestamp : null;
+    if (ts === null || ts - launchTs > windowSec) continue;
+    for (const tt of tx.tokenTransfers ?? []) {
+      if (tt?.mint !== mint || !tt.toUserAccount) continue;
+      if ((Number(tt.tokenAmount) || 0) > 0) out.add(tt.toUserAccount);
+    }
+  }
+  return out;
+}
+
+export async function resolveTopHolders(
+  conn: Connection,
+  largest: LargestAccount[],
+  supplyUi: number | null,
+  opts: { mint?: string; dev?: string; earlyBuyers?: Set<string>; accounts?: Map<string, any> } = {}
+): Promise<TopHolder[]> {
+  const top = largest.slice(0, TOP_HOLDERS_LIMIT);
+  if (!top.length) return [];
+
+  // Launchpad bonding curves own the unsold supply
+  const curves = new Map((opts.mint ? launchpadCurveAccounts(opts.mint) : []).map((c) => [c.address, c.launchpad]));
+
+  // One round-trip for all token accounts → owner wallets (skipped when a batch already fetched them)
+  const prefetched = opts.accounts;
+  const infos =
+    prefetched && top.every((a) => prefetched.has(a.address.toBase58()))
+      ? top.map((a) => prefetched.get(a.address.toBase58()))
+      : (await conn.getMultipleParsedAccounts(top.map((a) => a.address))).value;
+
+  return top.map((a, i) => {
+    const parsed: any = (infos[i]?.data as any)?.parsed;
+    const owner: string = parsed?.info?.owner ?? "";
+    const ui = a.uiAmount ?? 0;
+
+    const h: TopHolder = {
+      rank: i + 1,
+      owner,
+      token_account: a.address.toBase58(),
+      percent: supplyUi && supplyUi > 0 ? (ui / supplyUi) * 100 : 0,
+      ui_amount: ui,
+      tag: "UNKNOWN",
+    };
+
+    const amm = owner ? ammVaultLabel(owner) : undefined;
+    const curve = owner ? curves.get(owner) : undefined;
+
+    if (owner === INCINERATOR) {
+      h.tag = "BURN";
+    } else if (curve) {
+      h.tag = "LP";
+      h.lp_source = "BONDING_CURVE";
+      h.lp_label = `${curve} bonding curve`;
+    } else if (owner && owner === opts.dev) {
+      h.tag = "DEV";
+    } else if (amm) {
+      h.tag = "LP";
+      h.lp_source = "KNOWN_AMM";
+      h.lp_label = amm;
+    } else if (owner && isOffCurve(owner)) {
+      // PDA owner: pool vault / bonding curve / locker (heuristic)
+      h.tag = "LP";
+      h.lp_source = "PDA";
+    } else if (owner && opts.earlyBuyers?.has(owner)) {
+      h.tag = "EARLY";
+    }
+
+    return h;
+  });
+}
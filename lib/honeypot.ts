@@ -0,0 +1,144 @@
+// lib/honeypot.ts
+// EVM honeypot / tax detection: simulated buy + sell through a V2 router.
+// Runs entirely in eth_call with state overrides (nothing is sent on-chain):
+// contracts/PumpGuardSim.sol is injected at a throwaway address and funded.
+// Works against a forked local node (anvil --fork-url ...) with the same env.
+
+import type { Signal } from "./types";
+import { evmRpc, padAddress, toQuantity, wordAt, type EvmChain } from "./evm";
+import { explorerToken } from "./explorer";
+
+const DEFAULT_ROUTER: Record<EvmChain, string> = {
+  eth: "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D", // Uniswap V2 Router02
+  bnb: "0x10ED43C718714eb63d5aA57B78B54704E256024E", // PancakeSwap V2 Router
+};
+
+const BUY_WEI: Record<EvmChain, bigint> = {
+  eth: 10n ** 16n, // 0.01 ETH
+  bnb: 5n * 10n ** 16n, // 0.05 BNB
+};
+
+// Throwaway addresses (no key exists for them)
+const SIM_ADDRESS = "0x00000000000000000000000000000000009e9a12";
+const SIM_CALLER = "0x00000000000000000000000000000000009e9a13";
+
+// simulate(address,address)
+const SIM_SELECTOR = "0xe566a016";
+
+// Runtime bytecode of contracts/PumpGuardSim.sol (solc 0.8.26, optimizer 200 runs, evm paris)
+const SIM_RUNTIME_BYTECODE =
+  "0x6080604052600436106100225760003560e01c8063e566a0161461002e57600080fd5b3661002957005b600080fd5b61004161003c3660046105ef565b610070565b60408051958652602086019490945292840191909152606083015260ff16608082015260a00160405180910390f35b6000806000806000808790506000816001600160a01b031663ad5c46486040518163ffffffff1660e01b8152600401602060405180830381865afa1580156100bc573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906100e09190610628565b6040805160028082526060820183529293506000929091602083019080368337019050509050818160008151811061011a5761011a610662565b60200260200101906001600160a01b031690816001600160a01b031681525050888160018151811061014e5761014e610662565b6001600160a01b03928316602091820292909201015260405163d06ca61f60e01b81529084169063d06ca61f9061018b90349085906004016106bd565b600060405180830381865afa9250505080156101c957506040513d6000823e601f3d908101601f191682016040526101c691908101906106de565b60015b6101e7576000806000806001975097509750975097505050506105cd565b806001815181106101fa576101fa610662565b60209081029190910101516040516370a0823160e01b8152306004820152909950600091506001600160a01b038b16906370a0823190602401602060405180830381865afa158015610250573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061027491906107ab565b9050836001600160a01b031663b6f9de953460008530426040518663ffffffff1660e01b81526004016102aa94939291906107c4565b6000604051808303818588803b1580156102c357600080fd5b505af1935050505080156102d5575060015b6102f1575060009650869550859450600293506105cd92505050565b6040516370a0823160e01b815230600482015281906001600160a01b038c16906370a0823190602401602060405180830381865afa158015610337573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061035b91906107ab565b61036591906107f9565b975087600003610387575060009650869550859450600293506105cd92505050565b6040516001600160a01b038c81166024830152604482018a9052600091908c169060640160408051601f198184030181529181526020820180516001600160e01b031663095ea7b360e01b179052516103e09190610820565b6000604051808303816000865af19150503d806000811461041d576040519150601f19603f3d011682016040523d82523d6000602084013e610422565b606091505b5050905080610441575060009650869550600394506105cd9350505050565b8a8360008151811061045557610455610662565b60200260200101906001600160a01b031690816001600160a01b031681525050838360018151811061048957610489610662565b6001600160a01b03928316602091820292909201015260405163d06ca61f60e01b81529086169063d06ca61f906104c6908c9087906004016106bd565b600060405180830381865afa92505050801561050457506040513d6000823e601f3d908101601f1916820160405261050191908101906106de565b60015b61051e575060009650869550600494506105cd9350505050565b8060018151811061053157610531610662565b602002602001015198505060405163791ac94760e01b815247906001600160a01b0387169063791ac94790610573908d9060009089903090429060040161084f565b600060405180830381600087803b15801561058d57600080fd5b505af192505050801561059e575060015b6105b6575060009650600495506105cd945050505050565b6105c081476107f9565b9750600096505050505050505b9295509295909350565b6001600160a01b03811681146105ec57600080fd5b50565b6000806040838503121561060257600080fd5b823561060d816105d7565b9150602083013561061d816105d7565b809150509250929050565b60006020828403121561063a57600080fd5b8151610645816105d7565b9392505050565b634e487b7160e01b600052604160045260246000fd5b634e487b7160e01b600052603260045260246000fd5b600081518084526020840193506020830160005b828110156106b35781516001600160a01b031686526020958601959091019060010161068c565b5093949350505050565b8281526040602082015260006106d66040830184610678565b949350505050565b6000602082840312156106f057600080fd5b815167ffffffffffffffff81111561070757600080fd5b8201601f8101841361071857600080fd5b805167ffffffffffffffff8111156107325761073261064c565b8060051b604051601f19603f830116810181811067ffffffffffffffff8211171561075f5761075f61064c565b60405291825260208184018101929081018784111561077d57600080fd5b6020850194505b838510156107a057845180825260209586019590935001610784565b509695505050505050565b6000602082840312156107bd57600080fd5b5051919050565b8481526080602082015260006107dd6080830186610678565b6001600160a01b03949094166040830152506060015292915050565b8181038181111561081a57634e487b7160e01b600052601160045260246000fd5b92915050565b6000825160005b818110156108415760208186018101518583015201610827565b506000920191825250919050565b85815284602082015260a06040820152600061086e60a0830186610678565b6001600160a01b039490941660608301525060800152939250505056fea2646970667358221220da477f91653a05b88a60db3249499a6c1dd04a5ae955a43464d53780d790e24564736f6c634300081a0033";
+
+export type SimStatus = "OK" | "NO_POOL" | "BUY_FAILED" | "APPROVE_FAILED" | "SELL_FAILED";
+
+const STATUS: SimStatus[] = ["OK", "NO_POOL", "BUY_FAILED", "APPROVE_FAILED", "SELL_FAILED"];
+
+export type SimResult = {
+  status: SimStatus;
+  router: string;
+  buy_tax_pct: number | null;
+  sell_tax_pct: number | null;
+};
+
+export function v2RouterFor(chain: EvmChain): string {
+  const env = chain === "eth" ? process.env.ETH_V2_ROUTER : process.env.BNB_V2_ROUTER;
+  return (env || DEFAULT_ROUTER[chain]).toLowerCase();
+}
+
+function taxPct(expected: bigint, received: bigint): number | null {
+  if (expected <= 0n) return null;
+  if (received >= expected) return 0;
+  // basis points → percent (2 decimals)
+  return Number(((expected - received) * 10_000n) / expected) / 100;
+}
+
+export async function simulateBuySell(chain: EvmChain, token: string): Promise<SimResult> {
+  const router = v2RouterFor(chain);
+  const value = BUY_WEI[chain];
+
+  const out = await evmRpc<string>(chain, "eth_call", [
+    {
+      from: SIM_CALLER,
+      to: SIM_ADDRESS,
+      value: toQuantity(value),
+      gas: toQuantity(5_000_000),
+      data: SIM_SELECTOR + padAddress(router) + padAddress(token),
+    },
+    "latest",
+    {
+      [SIM_ADDRESS]: { code: SIM_RUNTIME_BYTECODE, balance: "0x0" },
+      [SIM_CALLER]: { balance: toQuantity(value * 10n) },
+    },
+  ]);
+
+  const w = (i: number) => BigInt("0x" + (wordAt(out, i) || "0"));
+  const buyExpected = w(0);
+  const buyReceived = w(1);
+  const sellExpected = w(2);
+  const sellReceived = w(3);
+  const status = STATUS[Number(w(4))] ?? "SELL_FAILED";
+
+  return {
+    status,
+    router,
+    buy_tax_pct: status === "NO_POOL" || status === "BUY_FAILED" ? null : taxPct(buyExpected, buyReceived),
+    sell_tax_pct: status === "OK" ? taxPct(sellExpected, sellReceived) : null,
+  };
+}
+
+/* =========================================================
+   Signals (DEV / CONTRACT)
+   ========================================================= */
+
+const HIGH_TAX_PCT = 10;
+const HONEYPOT_TAX_PCT = 90; // sells "work" but return ~nothing
+
+export function honeypotSignals(chain: EvmChain, token: string, sim: SimResult): Signal[] {
+  const signals: Signal[] = [];
+  const proof = [explorerToken(chain, token)];
+  const fmt = (v: number | null) => (v === null ? "n/a" : `${v.toFixed(2)}%`);
+
+  if (sim.status === "NO_POOL") {
+    signals.push({
+      id: "CONTEXT_SIM_NO_POOL",
+      label: "Buy/sell simulation skipped (no V2 pool with native quote)",
+      value: sim.router,
+      weight: 0,
+      proof,
+    });
+    return signals;
+  }
+
+  if (sim.status === "BUY_FAILED" || sim.status === "APPROVE_FAILED" || sim.status === "SELL_FAILED") {
+    const what =
+      sim.status === "BUY_FAILED" ? "Buy" : sim.status === "APPROVE_FAILED" ? "Approve" : "Sell";
+    signals.push({
+      id: "BLACKLIST_OR_TRANSFER_BLOCK",
+      label: `${what} reverted in simulation (honeypot / blacklist / trading disabled)`,
+      value: `status=${sim.status}, buy_tax=${fmt(sim.buy_tax_pct)}`,
+      weight: 15,
+      proof,
+    });
+  } else if ((sim.sell_tax_pct ?? 0) >= HONEYPOT_TAX_PCT || (sim.buy_tax_pct ?? 0) >= HONEYPOT_TAX_PCT) {
+    signals.push({
+      id: "BLACKLIST_OR_TRANSFER_BLOCK",
+      label: "Simulated trade returns almost nothing (honeypot-level tax)",
+      value: `buy=${fmt(sim.buy_tax_pct)}, sell=${fmt(sim.sell_tax_pct)}`,
+      weight: 15,
+      proof,
+    });
+  }
+
+  const maxTax = Math.max(sim.buy_tax_pct ?? 0, sim.sell_tax_pct ?? 0);
+  if (maxTax > HIGH_TAX_PCT) {
+    signals.push({
+      id: "HIGH_TAX",
+      label: "High buy/sell tax (measured by simulated trade)",
+      value: `buy=${fmt(sim.buy_tax_pct)}, sell=${fmt(sim.sell_tax_pct)}`,
+      weight: 5,
+      proof,
+    });
+  }
+
+  return signals;
+}
@@ -0,0 +1,359 @@
+// lib/launchFeed.ts
+// Live new-launch feed: websocket log subscriptions for pump.fun create, Raydium pool initialize and PumpSwap
+// create_pool. Each hit is resolved to its mint, queued for a base score, and pushed to /api/live subscribers.
+
+import { EventEmitter } from "events";
+import { Connection, PublicKey, type Logs } from "@solana/web3.js";
+import { sleep } from "./async";
+import { LAUNCHPAD_PROGRAMS } from "./launchpad";
+import { isQuoteMint } from "./labels";
+import { PUMPSWAP_PROGRAM_ID } from "./liquidity";
+import { solRpcFetch, solRpcUrl } from "./solana";
+import { topSignals } from "./telegram";
+import type { RiskLevel, ScoreResponse } from "./types";
+
+/*
+  SOLANA_WS_URL=wss://...            (default: derived from SOLANA_RPC_URL; http://127.0.0.1:8899 -> ws://127.0.0.1:8900)
+  LIVE_PROGRAM_PUMPFUN=6EF8...       (program id overrides, e.g. programs deployed / cloned on a local validator)
+  LIVE_PROGRAM_RAYDIUM_AMM=675k...
+  LIVE_PROGRAM_RAYDIUM_CPMM=CPMM...
+  LIVE_PROGRAM_PUMPSWAP=pAMM...
+  LIVE_SCORE_CONCURRENCY=2
+  LIVE_QUEUE_MAX=50                  (oldest pending launches are dropped beyond this)
+  LIVE_IDLE_STOP_MS=300000           (unsubscribe after the last /live viewer has been gone this long)
+*/
+
+const RECENT_MAX = 200;
+const TX_FETCH_ATTEMPTS = 4;
+const TX_FETCH_DELAY_MS = 1500; // "confirmed" logs often arrive before the tx is queryable
+
+export type LaunchSource = "pumpfun" | "raydium_amm" | "raydium_cpmm" | "pumpswap";
+
+type Detector = {
+  source: LaunchSource;
+  env: string;
+  program: string;
+  match: (line: string) => boolean;
+  mintAccounts: number[]; // positions of the launched token's mint (or the pool's two mints) in the instruction
+};
+
+const DETECTORS: Detector[] = [
+  {
+    source: "pumpfun",
+    env: "LIVE_PROGRAM_PUMPFUN",
+    program: LAUNCHPAD_PROGRAMS["pump.fun"],
+    match: (l) => /^Program log: Instruction: Create(V2)?$/.test(l),
+    mintAccounts: [0], // mint, mint_authority, bonding_curve, ...
+  },
+  {
+    source: "raydium_amm",
+    env: "LIVE_PROGRAM_RAYDIUM_AMM",
+    program: "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8",
+    match: (l) => l.startsWith("Program log: initialize2"),
+    mintAccounts: [8, 9], // ..., lp_mint (7), coin_mint, pc_mint, ...
+  },
+  {
+    source: "raydium_cpmm",
+    env: "LIVE_PROGRAM_RAYDIUM_CPMM",
+    program: "CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C",
+    match: (l) => l === "Program log: Instruction: Initialize",
+    mintAccounts: [4, 5], // ..., pool_state, token_0_mint, token_1_mint, lp_mint (6), ...
+  },
+  {
+    source: "pumpswap",
+    env: "LIVE_PROGRAM_PUMPSWAP",
+    program: PUMPSWAP_PROGRAM_ID,
+    match: (l) => l === "Program log: Instruction: CreatePool",
+    mintAccounts: [3, 4], // pool, global_config, creator, base_mint, quote_mint, lp_mint (5), ...
+  },
+];
+
+export type LaunchItem = {
+  signature: string;
+  source: LaunchSource;
+  slot: number;
+  seen_at: number;
+  mint: string | null;
+  status: "resolving" | "queued" | "scoring" | "scored" | "dropped" | "error";
+  scored_at?: number;
+  score?: number;
+  level?: RiskLevel;
+  model_version?: string;
+  name?: string;
+  symbol?: string;
+  top_signals?: { id: string; label: string; weight: number }[];
+  error?: string;
+};
+
+/** Base score for a new mint (the /api/live route passes the cached `getScore`). */
+export type LaunchScorer = (mint: string) => Promise<ScoreResponse>;
+
+export type FeedStatus = {
+  running: boolean;
+  ws_url: string | null;
+  started_at: number | null;
+  programs: { source: LaunchSource; program: string }[];
+  seen: number;
+  scored: number;
+  dropped: number;
+  errors: number;
+  queued: number;
+  subscribers: number;
+};
+
+type FeedState = {
+  conn: Connection | null;
+  scorer: LaunchScorer | null;
+  subs: number[];
+  started_at: number | null;
+  recent: LaunchItem[]; // newest first
+  seenSigs: Set<string>;
+  queue: LaunchItem[];
+  active: number;
+  counters: { seen: number; scored: number; dropped: number; errors: number };
+  events: EventEmitter;
+  viewers: number;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+};
+
+// one subscriber per process (survives Next.js dev hot reloads)
+const g = globalThis as any;
+const state: FeedState =
+  g.__PG_LAUNCH_FEED ??
+  (g.__PG_LAUNCH_FEED = {
+    conn: null,
+    scorer: null,
+    subs: [],
+    started_at: null,
+    recent: [],
+    seenSigs: new Set(),
+    queue: [],
+    active: 0,
+    counters: { seen: 0, scored: 0, dropped: 0, errors: 0 },
+    events: new EventEmitter().setMaxListeners(0),
+    viewers: 0,
+    idleTimer: null,
+  });
+
+function envNum(name: string, dflt: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : dflt;
+}
+
+export function solWsUrl(): string {
+  if (process.env.SOLANA_WS_URL) return process.env.SOLANA_WS_URL;
+  // same rule as web3.js: http(s) -> ws(s), explicit port + 1 (solana-test-validator: 8899 -> 8900)
+  const u = new URL(solRpcUrl());
+  u.protocol = u.protocol === "https:" ? "wss:" : "ws:";
+  if (u.port) u.port = String(Number(u.port) + 1);
+  return u.toString();
+}
+
+function programs() {
+  return DETECTORS.map((d) => ({ ...d, program: process.env[d.env] || d.program }));
+}
+
+/* =========================================================
+   Pipeline: log -> mint -> queue -> base score
+   ========================================================= */
+
+function publish(item: LaunchItem) {
+  state.events.emit("launch", { ...item });
+}
+
+/**
+ * Mint of the launch, read from the launch instruction's own accounts (top-level or CPI): the first non-quote mint at
+ * the detector's positions that also shows up in the tx's token balances (pump.fun curve ATA, pool vaults). Other
+ * instructions to the same program (a pump.fun buy in the create tx) fail that check; the LP mint is never a candidate.
+ */
+async function resolveMint(conn: Connection, signature: string, d: Detector): Promise<string | null> {
+  for (let i = 0; i < TX_FETCH_ATTEMPTS; i++) {
+    if (i) await sleep(TX_FETCH_DELAY_MS);
+    const tx = await conn.getParsedTransaction(signature, { maxSupportedTransactionVersion: 0, commitment: "confirmed" });
+    if (!tx) continue;
+
+    const balances = [...(tx.meta?.postTokenBalances ?? []), ...(tx.meta?.preTokenBalances ?? [])];
+    const held = new Set(balances.map((b) => b.mint));
+    const ixs = [
+      ...tx.transaction.message.instructions,
+      ...(tx.meta?.innerInstructions ?? []).flatMap((inner) => inner.instructions),
+    ];
+    for (const ix of ixs) {
+      if (ix.programId.toBase58() !== d.program || !("accounts" in ix)) continue;
+      const mint = d.mintAccounts
+        .map((pos) => ix.accounts[pos]?.toBase58())
+        .find((m): m is string => !!m && held.has(m) && !isQuoteMint(m));
+      if (mint) return mint;
+    }
+    return null;
+  }
+  return null;
+}
+
+async function scoreItem(item: LaunchItem) {
+  item.status = "scoring";
+  publish(item);
+  try {
+    if (!state.scorer) throw new Error("feed stopped");
+    const r = await state.scorer(item.mint!);
+    item.status = "scored";
+    item.scored_at = Date.now();
+    item.score = r.risk.score;
+    item.level = r.risk.level;
+    item.model_version = r.model_version;
+    item.name = r.token?.name;
+    item.symbol = r.token?.symbol;
+    item.top_signals = topSignals(r.signals).map(({ id, label, weight }) => ({ id, label, weight }));
+    state.counters.scored++;
+  } catch (e: any) {
+    item.status = "error";
+    item.error = String(e?.message || e);
+    state.counters.errors++;
+  }
+  publish(item);
+}
+
+function pump() {
+  const max = envNum("LIVE_SCORE_CONCURRENCY", 2);
+  while (state.active < max && state.queue.length) {
+    const item = state.queue.shift()!;
+    state.active++;
+    scoreItem(item).finally(() => {
+      state.active--;
+      pump();
+    });
+  }
+}
+
+function enqueue(item: LaunchItem) {
+  state.queue.push(item);
+  const max = envNum("LIVE_QUEUE_MAX", 50);
+  while (state.queue.length > max) {
+    const old = state.queue.shift()!; // newest launches matter most
+    old.status = "dropped";
+    state.counters.dropped++;
+    publish(old);
+  }
+  pump();
+}
+
+async function onLaunch(d: Detector, logs: Logs, slot: number) {
+  if (state.seenSigs.has(logs.signature)) return;
+  state.seenSigs.add(logs.signature);
+  if (state.seenSigs.size > RECENT_MAX * 10) state.seenSigs = new Set(Array.from(state.seenSigs).slice(-RECENT_MAX * 5));
+
+  const item: LaunchItem = {
+    signature: logs.signature,
+    source: d.source,
+    slot,
+    seen_at: Date.now(),
+    mint: null,
+    status: "resolving",
+  };
+  state.counters.seen++;
+  state.recent.unshift(item);
+  state.recent.length = Math.min(state.recent.length, RECENT_MAX);
+  publish(item);
+
+  try {
+    item.mint = state.conn ? await resolveMint(state.conn, logs.signature, d) : null;
+  } catch (e: any) {
+    item.error = String(e?.message || e);
+  }
+  if (!item.mint) {
+    item.status = "error";
+    item.error = item.error || "mint not found in transaction";
+    state.counters.errors++;
+    publish(item);
+    return;
+  }
+
+  item.status = "queued";
+  publish(item);
+  enqueue(item);
+}
+
+/* =========================================================
+   Lifecycle
+   ========================================================= */
+
+export function startLaunchFeed(scorer: LaunchScorer) {
+  state.scorer = scorer;
+  if (state.conn) return;
+
+  const conn = new Connection(solRpcUrl(), {
+    commitment: "confirmed",
+    wsEndpoint: solWsUrl(),
+    fetch: (input, init) => solRpcFetch(input as string, init as RequestInit),
+    disableRetryOnRateLimit: true,
+  });
+  state.conn = conn;
+  state.started_at = Date.now();
+
+  for (const d of programs()) {
+    let program: PublicKey;
+    try {
+      program = new PublicKey(d.program);
+    } catch {
+      continue; // bad LIVE_PROGRAM_* override: skip that source
+    }
+    const id = conn.onLogs(
+      program,
+      (logs, ctx) => {
+        if (logs.err || !logs.logs.some(d.match)) return;
+        onLaunch(d, logs, ctx.slot).catch(() => {});
+      },
+      "confirmed"
+    );
+    state.subs.push(id);
+  }
+}
+
+export async function stopLaunchFeed() {
+  const conn = state.conn;
+  if (!conn) return;
+  state.conn = null;
+  state.started_at = null;
+  const subs = state.subs.splice(0);
+  await Promise.all(subs.map((id) => conn.removeOnLogsListener(id).catch(() => {})));
+}
+
+/**
+ * Registers a viewer (starts the feed on the first one) and returns the unsubscribe function.
+ * The websocket stays open for LIVE_IDLE_STOP_MS after the last viewer leaves.
+ */
+export function subscribeLaunches(scorer: LaunchScorer, fn: (item: LaunchItem) => void): () => void {
+  if (state.idleTimer) clearTimeout(state.idleTimer);
+  state.idleTimer = null;
+  startLaunchFeed(scorer);
+
+  state.viewers++;
+  state.events.on("launch", fn);
+
+  return () => {
+    state.events.off("launch", fn);
+    state.viewers = Math.max(0, state.viewers - 1);
+    if (state.viewers === 0) {
+      state.idleTimer = setTimeout(() => {
+        state.idleTimer = null;
+        if (state.viewers === 0) stopLaunchFeed().catch(() => {});
+      }, envNum("LIVE_IDLE_STOP_MS", 5 * 60_000));
+    }
+  };
+}
+
+export function recentLaunches(): LaunchItem[] {
+  return state.recent.map((i) => ({ ...i }));
+}
+
+export function feedStatus(): FeedStatus {
+  return {
+    running: !!state.conn,
+    ws_url: state.conn ? solWsUrl().replace(/api-key=[^&]+/, "api-key=***") : null,
+    started_at: state.started_at,
+    programs: programs().map(({ source, program }) => ({ source, program })),
+    ...state.counters,
+    queued: state.queue.length,
+    subscribers: state.viewers,
+  };
+}
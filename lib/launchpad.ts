@@ -0,0 +1,228 @@
+// lib/launchpad.ts
+// Launchpad bonding curves (pump.fun, Raydium LaunchLab, Moonshot): curve account, progress, reserves
+// and the creator's own buy in the create transaction.
+
+import { Connection, PublicKey } from "@solana/web3.js";
+import type { LaunchpadInfo, Signal } from "./types";
+import { explorerAddress, explorerTx } from "./explorer";
+import { WSOL_MINT } from "./labels";
+
+export const LAUNCHPAD_PROGRAMS = {
+  "pump.fun": "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P",
+  "Raydium LaunchLab": "LanMV9sAd7wArD4vJFi2qDdfnVhFxYSUg6eADduJ3uj",
+  Moonshot: "MoonCVVNZFSYkqNXP6bxHLPL6QQJiMagDL3qcqUQTrG",
+} as const;
+
+export type Launchpad = keyof typeof LAUNCHPAD_PROGRAMS;
+
+// pump.fun: 793.1M (6 decimals) tokens are sold on the curve before migration
+const PUMP_INITIAL_REAL_TOKEN_RESERVES = 793_100_000_000_000n;
+// Moonshot: 80% of supply is sold on the curve
+const MOONSHOT_CURVE_SHARE = 0.8;
+
+const CURVE_NEAR_COMPLETE_PCT = 90;
+const CREATE_TX_SIG_PAGES = 3; // x1000 signatures to reach the create tx without Helius
+
+/* =========================================================
+   Curve accounts
+   ========================================================= */
+
+/** Curve PDAs for a mint (no RPC). Owners of the curve's token account — excluded from concentration. */
+export function launchpadCurveAccounts(mint: string): { address: string; launchpad: Launchpad }[] {
+  const mintPk = new PublicKey(mint);
+  const pda = (program: string, seeds: Buffer[]) =>
+    PublicKey.findProgramAddressSync(seeds, new PublicKey(program))[0].toBase58();
+
+  return [
+    {
+      launchpad: "pump.fun",
+      address: pda(LAUNCHPAD_PROGRAMS["pump.fun"], [Buffer.from("bonding-curve"), mintPk.toBuffer()]),
+    },
+    {
+      launchpad: "Raydium LaunchLab",
+      address: pda(LAUNCHPAD_PROGRAMS["Raydium LaunchLab"], [
+        Buffer.from("pool"),
+        mintPk.toBuffer(),
+        new PublicKey(WSOL_MINT).toBuffer(),
+      ]),
+    },
+    {
+      launchpad: "Moonshot",
+      address: pda(LAUNCHPAD_PROGRAMS.Moonshot, [Buffer.from("token"), mintPk.toBuffer()]),
+    },
+  ];
+}
+
+function pk(data: Buffer, offset: number): string {
+  return new PublicKey(data.subarray(offset, offset + 32)).toBase58();
+}
+
+function u64(data: Buffer, offset: number): bigint {
+  return data.readBigUInt64LE(offset);
+}
+
+function clampPct(x: number) {
+  return Math.max(0, Math.min(100, x));
+}
+
+// pump.fun BondingCurve: virtual_token @8, virtual_sol @16, real_token @24, real_sol @32, total_supply @40,
+// complete bool @48, creator @49 (newer curves)
+function decodePump(curve: string, data: Buffer): LaunchpadInfo {
+  const realToken = u64(data, 24);
+  return {
+    launchpad: "pump.fun",
+    curve,
+    complete: data[48] === 1,
+    progress_pct: clampPct(
+      Number(((PUMP_INITIAL_REAL_TOKEN_RESERVES - realToken) * 10_000n) / PUMP_INITIAL_REAL_TOKEN_RESERVES) / 100
+    ),
+    quote_reserve: Number(u64(data, 32)) / 1e9,
+    quote_symbol: "SOL",
+    creator: data.length >= 81 ? pk(data, 49) : undefined,
+  };
+}
+
+// LaunchLab PoolState: status u8 @17, quote_decimals u8 @19, total_base_sell @29, real_base @53, real_quote @61,
+// creator @333
+function decodeLaunchLab(curve: string, data: Buffer): LaunchpadInfo {
+  const totalSell = u64(data, 29);
+  const realBase = u64(data, 53);
+  return {
+    launchpad: "Raydium LaunchLab",
+    curve,
+    complete: data[17] !== 0, // 0 = trading, then migrating / migrated
+    progress_pct: totalSell > 0n ? clampPct(Number((realBase * 10_000n) / totalSell) / 100) : null,
+    quote_reserve: Number(u64(data, 61)) / 10 ** data[19],
+    quote_symbol: "SOL",
+    creator: data.length >= 365 ? pk(data, 333) : undefined,
+  };
+}
+
+// Moonshot CurveAccount: total_supply @8, curve_amount @16 (tokens left on the curve). SOL sits on the account itself.
+function decodeMoonshot(curve: string, data: Buffer, lamports: number): LaunchpadInfo {
+  const total = Number(u64(data, 8));
+  const left = Number(u64(data, 16));
+  const onCurve = total * MOONSHOT_CURVE_SHARE;
+  const progress = onCurve > 0 ? clampPct(((onCurve - left) / onCurve) * 100) : null;
+  return {
+    launchpad: "Moonshot",
+    curve,
+    complete: left === 0 || (progress ?? 0) >= 100,
+    progress_pct: progress,
+    quote_reserve: lamports / 1e9,
+    quote_symbol: "SOL",
+  };
+}
+
+/** Whichever launchpad curve exists for this mint (null: not a launchpad token). */
+export async function fetchCurveState(conn: Connection, mint: string): Promise<LaunchpadInfo | null> {
+  const candidates = launchpadCurveAccounts(mint);
+  const infos = await conn.getMultipleAccountsInfo(candidates.map((c) => new PublicKey(c.address)));
+
+  for (let i = 0; i < candidates.length; i++) {
+    const info = infos[i];
+    const c = candidates[i];
+    if (!info || info.owner.toBase58() !== LAUNCHPAD_PROGRAMS[c.launchpad]) continue;
+
+    const data = Buffer.from(info.data);
+    if (c.launchpad === "pump.fun" && data.length >= 49) return decodePump(c.address, data);
+    if (c.launchpad === "Raydium LaunchLab" && data.length >= 69) return decodeLaunchLab(c.address, data);
+    if (c.launchpad === "Moonshot" && data.length >= 24) return decodeMoonshot(c.address, data, info.lamports);
+  }
+  return null;
+}
+
+/* =========================================================
+   Creator's initial buy
+   ========================================================= */
+
+async function oldestSignature(conn: Connection, mint: string): Promise<string | null> {
+  let before: string | undefined;
+  for (let page = 0; page < CREATE_TX_SIG_PAGES; page++) {
+    const sigs = await conn.getSignaturesForAddress(new PublicKey(mint), { limit: 1000, before });
+    if (!sigs.length) return null;
+    before = sigs[sigs.length - 1].signature;
+    if (sigs.length < 1000) return before;
+  }
+  return null; // too many txs to reach the create tx via RPC
+}
+
+/** Tokens the creator received in the create tx (create + dev buy are one tx on these launchpads). */
+export async function creatorInitialBuy(
+  conn: Connection,
+  mint: string,
+  opts: { createSig?: string; creator?: string; supplyUi: number | null }
+): Promise<{ creator: string; ui_amount: number; pct: number | null; sig: string } | null> {
+  const sig = opts.createSig ?? (await oldestSignature(conn, mint));
+  if (!sig) return null;
+
+  const tx = await conn.getParsedTransaction(sig, { maxSupportedTransactionVersion: 0 });
+  if (!tx?.meta) return null;
+
+  const keys: any[] = (tx.transaction.message as any).accountKeys || [];
+  const creator = opts.creator ?? keys[0]?.pubkey?.toString?.();
+  if (!creator) return null;
+
+  const bal = (list: any[] | null | undefined) =>
+    (list ?? [])
+      .filter((b) => b?.mint === mint && b?.owner === creator)
+      .reduce((a, b) => a + (b?.uiTokenAmount?.uiAmount ?? 0), 0);
+
+  const ui = bal(tx.meta.postTokenBalances) - bal(tx.meta.preTokenBalances);
+  if (ui <= 0) return { creator, ui_amount: 0, pct: 0, sig };
+
+  return {
+    creator,
+    ui_amount: ui,
+    pct: opts.supplyUi && opts.supplyUi > 0 ? (ui / opts.supplyUi) * 100 : null,
+    sig,
+  };
+}
+
+/* =========================================================
+   Signals
+   ========================================================= */
+
+export function launchpadSignals(state: LaunchpadInfo): Signal[] {
+  const signals: Signal[] = [];
+  const progress = state.progress_pct !== null ? `progress=${state.progress_pct.toFixed(1)}%` : "progress=?";
+
+  signals.push({
+    id: "CONTEXT_LAUNCHPAD",
+    label: state.complete ? `${state.launchpad} token (curve completed / migrated)` : `${state.launchpad} bonding curve`,
+    value: `${progress}, reserves=${state.quote_reserve.toFixed(2)} ${state.quote_symbol}`,
+    weight: 0,
+    proof: [explorerAddress("sol", state.curve)],
+  });
+
+  if (!state.complete && state.progress_pct !== null && state.progress_pct >= CURVE_NEAR_COMPLETE_PCT) {
+    signals.push({
+      id: "CURVE_NEAR_COMPLETE",
+      label: "Bonding curve almost complete (migration imminent — early holders often sell into it)",
+      value: progress,
+      weight: 0,
+      proof: [explorerAddress("sol", state.curve)],
+    });
+  }
+
+  const buy = state.dev_initial_buy;
+  if (buy?.pct != null) {
+    const tiers = [
+      { gt: 20, weight: 15 },
+      { gt: 10, weight: 10 },
+      { gt: 5, weight: 5 },
+    ];
+    const tier = tiers.find((t) => buy.pct! > t.gt);
+    if (tier) {
+      signals.push({
+        id: `DEV_INITIAL_BUY_GT_${tier.gt}`,
+        label: "Creator bought a large share of supply in the create transaction",
+        value: `initial_buy=${buy.pct.toFixed(1)}%`,
+        weight: tier.weight,
+        proof: [explorerTx("sol", buy.sig)],
+      });
+    }
+  }
+
+  return signals;
+}
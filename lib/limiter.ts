@@ -0,0 +1,173 @@
+// lib/limiter.ts
+// Per-provider concurrency limits. Every outgoing provider call goes through `providerFetch` (or `limit`),
+// so a batch of 100 tokens cannot open 100 parallel requests against one RPC / API key. `providerFetch` also
+// records / replays calls (lib/recorder.ts, PROVIDER_MODE) and spends the provider's request budget.
+
+import { AsyncLocalStorage } from "async_hooks";
+import { recordedFetch } from "./recorder";
+
+/*
+  PROVIDER_CONCURRENCY_SOLANA_RPC=8
+  PROVIDER_CONCURRENCY_HELIUS=4
+  PROVIDER_CONCURRENCY_EVM_RPC=6
+  PROVIDER_CONCURRENCY_DEXSCREENER=4
+  PROVIDER_CONCURRENCY_RAYDIUM=4
+
+  PROVIDER_BUDGET_HELIUS=600         requests per window (unset = no budget; same for every provider)
+  PROVIDER_BUDGET_WINDOW_SEC=60
+  PROVIDER_BUDGET_DEEP_SHARE=0.5     at most this share of a window goes to the "deep" lane; the rest is kept for base scores
+*/
+
+export type Provider = "solana-rpc" | "helius" | "evm-rpc" | "dexscreener" | "raydium";
+
+const DEFAULT_CONCURRENCY: Record<Provider, number> = {
+  "solana-rpc": 8,
+  helius: 4,
+  "evm-rpc": 6,
+  dexscreener: 4,
+  raydium: 4,
+};
+
+type Slot = {
+  max: number;
+  active: number;
+  queue: (() => void)[];
+  calls: number;
+  waited: number; // calls that had to queue
+  peak_queue: number;
+};
+
+export type BudgetLane = "base" | "deep";
+
+type Budget = {
+  max: number; // per window
+  window_start: number;
+  used: number;
+  deep_used: number;
+  rejected: number;
+};
+
+type LimiterState = { slots: Map<Provider, Slot>; budgets: Map<Provider, Budget | null> };
+
+// survive Next.js dev hot reloads (one limiter per process)
+const g = globalThis as any;
+const state: LimiterState = g.__PG_LIMITER_STATE ?? (g.__PG_LIMITER_STATE = { slots: new Map(), budgets: new Map() });
+state.budgets ??= new Map();
+
+const lane = new AsyncLocalStorage<BudgetLane>();
+
+function envKey(p: Provider) {
+  return p.replace("-", "_").toUpperCase();
+}
+
+function envNum(name: string, dflt: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : dflt;
+}
+
+function slot(p: Provider): Slot {
+  let s = state.slots.get(p);
+  if (!s) {
+    s = {
+      max: envNum(`PROVIDER_CONCURRENCY_${envKey(p)}`, DEFAULT_CONCURRENCY[p]),
+      active: 0,
+      queue: [],
+      calls: 0,
+      waited: 0,
+      peak_queue: 0,
+    };
+    state.slots.set(p, s);
+  }
+  return s;
+}
+
+/** Runs `fn` once a slot for `provider` is free. Do not nest calls for the same provider. */
+export async function limit<T>(provider: Provider, fn: () => Promise<T>): Promise<T> {
+  const s = slot(provider);
+  s.calls++;
+
+  if (s.active >= s.max) {
+    s.waited++;
+    await new Promise<void>((resolve) => {
+      s.queue.push(resolve);
+      s.peak_queue = Math.max(s.peak_queue, s.queue.length);
+    });
+  } else {
+    s.active++;
+  }
+
+  try {
+    return await fn();
+  } finally {
+    const next = s.queue.shift();
+    if (next) next(); // hand the slot over (active unchanged)
+    else s.active--;
+  }
+}
+
+/* =========================================================
+   Request budgets
+   ========================================================= */
+
+/** Provider calls made inside `fn` (across awaits) spend the `name` lane of each budget. Default lane: base. */
+export function withBudgetLane<T>(name: BudgetLane, fn: () => Promise<T>): Promise<T> {
+  return lane.run(name, fn);
+}
+
+function budget(p: Provider): Budget | null {
+  if (!state.budgets.has(p)) {
+    const max = envNum(`PROVIDER_BUDGET_${envKey(p)}`, 0);
+    state.budgets.set(p, max > 0 ? { max, window_start: Date.now(), used: 0, deep_used: 0, rejected: 0 } : null);
+  }
+  return state.budgets.get(p)!;
+}
+
+/** Counts one request against the provider's budget; throws (code BUDGET_EXHAUSTED) once the lane's share is used up. */
+function spend(p: Provider) {
+  const b = budget(p);
+  if (!b) return;
+
+  const now = Date.now();
+  if (now - b.window_start >= envNum("PROVIDER_BUDGET_WINDOW_SEC", 60) * 1000) {
+    b.window_start = now;
+    b.used = 0;
+    b.deep_used = 0;
+  }
+
+  const deep = lane.getStore() === "deep";
+  const share = Math.min(1, envNum("PROVIDER_BUDGET_DEEP_SHARE", 0.5));
+  if (b.used >= b.max || (deep && b.deep_used >= Math.floor(b.max * share))) {
+    b.rejected++;
+    const e: any = new Error(`${p} request budget exhausted${deep ? " (deep)" : ""}, retry later`);
+    e.code = "BUDGET_EXHAUSTED";
+    throw e;
+  }
+
+  b.used++;
+  if (deep) b.deep_used++;
+}
+
+export function isBudgetExhausted(e: any) {
+  return e?.code === "BUDGET_EXHAUSTED";
+}
+
+export function providerFetch(provider: Provider, input: string | URL, init?: RequestInit): Promise<Response> {
+  // replays never reach `send`, so they do not spend the budget
+  return recordedFetch(provider, input, init, () => {
+    spend(provider);
+    return limit(provider, () => fetch(input, init));
+  });
+}
+
+export function limiterStats() {
+  const out: Record<string, Omit<Slot, "queue"> & { queued: number; budget?: Omit<Budget, "window_start"> & { resets_in_ms: number } }> = {};
+  for (const [p, s] of state.slots.entries()) {
+    out[p] = { max: s.max, active: s.active, queued: s.queue.length, calls: s.calls, waited: s.waited, peak_queue: s.peak_queue };
+  }
+  for (const [p, b] of state.budgets.entries()) {
+    if (!b || !out[p]) continue;
+    const resets_in_ms = Math.max(0, b.window_start + envNum("PROVIDER_BUDGET_WINDOW_SEC", 60) * 1000 - Date.now());
+    out[p].budget = { max: b.max, used: b.used, deep_used: b.deep_used, rejected: b.rejected, resets_in_ms };
+  }
+  return out;
+}
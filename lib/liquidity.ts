@@ -0,0 +1,521 @@
+// lib/liquidity.ts
+// Per-DEX liquidity analysers (Deep only). LP-token pools: who holds the LP mint, how much is burned / locked.
+// Position pools (CLMM / DLMM / DAMM v2): who owns the positions, how much is in range / permanently locked.
+
+import { Connection, PublicKey } from "@solana/web3.js";
+import type { Signal } from "./types";
+import { explorerAddress, explorerToken } from "./explorer";
+import { INCINERATOR } from "./labels";
+import { raydiumLockAuthorities, streamflowLocksForMint, type LockerName, type LpLock } from "./locks";
+import { providerNow } from "./recorder";
+
+export const PUMPSWAP_PROGRAM_ID = "pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FSfXEA";
+
+export const DEX_PROGRAMS: Record<string, string> = {
+  whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc: "Orca Whirlpool",
+  CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK: "Raydium CLMM",
+  LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo: "Meteora DLMM",
+  Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB: "Meteora DAMM v1",
+  cpamdpZCGKUy5JxQXB4dcpGPiikHsvSU5pdqhxMbN7uk: "Meteora DAMM v2",
+  [PUMPSWAP_PROGRAM_ID]: "PumpSwap",
+};
+
+const MAX_POSITIONS = 300; // position accounts decoded per pool
+const MAX_OWNER_LOOKUPS = 8; // NFT position owners resolved (largest positions first)
+const LP_TOKEN_ACCOUNTS_CHECKED = 12;
+
+export const LP_OK_BURNED_PCT = 95;
+export const LP_DEV_OWNED_PCT = 10;
+const ONE_SIDED_OUT_OF_RANGE_PCT = 90;
+export const LP_UNLOCK_SOON_DAYS = 7;
+const DAY_SEC = 24 * 60 * 60;
+
+export type LpAnalysis = {
+  dex: string;
+  pool: string;
+  model: "LP_TOKEN" | "POSITIONS";
+  lp_mint?: string;
+  burned_pct: number; // burned or permanently locked, % of liquidity
+  locked_pct: number; // time-locked (unlocks later), % of liquidity
+  locks: LockShare[];
+  dev_pct: number; // owned by the dev candidate, % of liquidity
+  top_owner?: string;
+  top_owner_pct?: number;
+  one_sided: boolean | null; // null: not determined
+  out_of_range_pct?: number | null; // position pools: liquidity outside the active price
+  positions?: number;
+  proof: string[];
+};
+
+export type LockShare = {
+  locker: LockerName;
+  account: string;
+  pct: number;
+  unlock_ts: number | null; // null = permanent
+  full_unlock_ts?: number | null;
+};
+
+type Position = {
+  address: string;
+  owner?: string; // wallet (DLMM) — NFT pools resolve it later
+  nft_mint?: string;
+  liquidity: bigint;
+  locked: bigint; // permanently locked part (DAMM v2)
+  in_range: boolean | null;
+};
+
+/* =========================================================
+   Byte helpers
+   ========================================================= */
+
+function pk(data: Buffer, offset: number): string {
+  return new PublicKey(data.subarray(offset, offset + 32)).toBase58();
+}
+
+function u128(data: Buffer, offset: number): bigint {
+  return data.readBigUInt64LE(offset) + (data.readBigUInt64LE(offset + 8) << 64n);
+}
+
+function pct(part: bigint, total: bigint): number {
+  if (total <= 0n) return 0;
+  return Number((part * 10_000n) / total) / 100;
+}
+
+/* =========================================================
+   Shared lookups
+   ========================================================= */
+
+async function listProgramAccounts(conn: Connection, program: string, poolOffset: number, pool: string, dataSize?: number) {
+  const filters: any[] = [{ memcmp: { offset: poolOffset, bytes: pool } }];
+  if (dataSize) filters.push({ dataSize });
+
+  // keys only first: popular pools have thousands of positions
+  const keys = await conn.getProgramAccounts(new PublicKey(program), { filters, dataSlice: { offset: 0, length: 0 } });
+  const pubkeys = keys.slice(0, MAX_POSITIONS).map((k) => k.pubkey);
+
+  const out: { address: string; data: Buffer }[] = [];
+  for (let i = 0; i < pubkeys.length; i += 100) {
+    const chunk = pubkeys.slice(i, i + 100);
+    const infos = await conn.getMultipleAccountsInfo(chunk);
+    infos.forEach((info, j) => {
+      if (info) out.push({ address: chunk[j].toBase58(), data: Buffer.from(info.data) });
+    });
+  }
+  return out;
+}
+
+async function nftHolders(conn: Connection, nftMints: string[]): Promise<Map<string, string>> {
+  const out = new Map<string, string>();
+  await Promise.all(
+    nftMints.map(async (m) => {
+      try {
+        const largest = await conn.getTokenLargestAccounts(new PublicKey(m));
+        const acc = largest.value.find((a) => a.amount === "1");
+        if (!acc) return;
+        const info = await conn.getParsedAccountInfo(acc.address);
+        const owner = (info.value?.data as any)?.parsed?.info?.owner;
+        if (owner) out.set(m, String(owner));
+      } catch {}
+    })
+  );
+  return out;
+}
+
+async function vaultsOneSided(conn: Connection, vaults: string[]): Promise<boolean | null> {
+  try {
+    const infos = await conn.getMultipleParsedAccounts(vaults.map((v) => new PublicKey(v)));
+    const amounts = infos.value.map((i) => (i?.data as any)?.parsed?.info?.tokenAmount?.amount);
+    if (amounts.some((a) => a === undefined)) return null;
+    return amounts.some((a) => BigInt(a) === 0n);
+  } catch {
+    return null;
+  }
+}
+
+/* =========================================================
+   LP-token pools (Raydium AMM / CPMM, Meteora DAMM v1, PumpSwap)
+   ========================================================= */
+
+/** Burned / locked / dev share of an LP mint. `mintedSupplyRaw`: LP ever issued, when the pool tracks it. */
+export async function analyzeLpToken(
+  conn: Connection,
+  lpMint: string,
+  opts: { dev?: string; mintedSupplyRaw?: bigint } = {}
+): Promise<Pick<LpAnalysis, "burned_pct" | "locked_pct" | "locks" | "dev_pct" | "top_owner" | "top_owner_pct" | "proof"> | null> {
+  const lpMintPk = new PublicKey(lpMint);
+
+  const supplyRaw = BigInt((await conn.getTokenSupply(lpMintPk))?.value?.amount || "0");
+  // LP burned with a plain token burn never reaches the pool program
+  const issued = opts.mintedSupplyRaw && opts.mintedSupplyRaw > supplyRaw ? opts.mintedSupplyRaw : supplyRaw;
+  if (issued <= 0n) return null;
+
+  const largest = (await conn.getTokenLargestAccounts(lpMintPk))?.value || [];
+  const top = largest.slice(0, LP_TOKEN_ACCOUNTS_CHECKED);
+  const infos = top.length ? await conn.getMultipleParsedAccounts(top.map((a) => a.address)) : { value: [] as any[] };
+
+  let streams = new Map<string, LpLock>();
+  try {
+    streams = await streamflowLocksForMint(conn, lpMint);
+  } catch {}
+  const raydiumLocks = raydiumLockAuthorities();
+
+  let burnedRaw = issued - supplyRaw;
+  let lockedRaw = 0n;
+  let devRaw = 0n;
+  const byOwner = new Map<string, bigint>();
+  const locks: LockShare[] = [];
+
+  top.forEach((a, i) => {
+    let owner = (infos.value[i]?.data as any)?.parsed?.info?.owner;
+    const amt = BigInt(a.amount || "0");
+    if (!owner) return;
+
+    const stream = streams.get(a.address.toBase58());
+    if (owner === INCINERATOR) {
+      burnedRaw += amt;
+      return;
+    }
+    if (raydiumLocks.has(owner)) {
+      burnedRaw += amt;
+      locks.push({ locker: "Raydium Burn & Earn", account: a.address.toBase58(), pct: pct(amt, issued), unlock_ts: null });
+      return;
+    }
+    if (stream && !stream.cancelable) {
+      lockedRaw += amt;
+      locks.push({
+        locker: stream.locker,
+        account: stream.account,
+        pct: pct(amt, issued),
+        unlock_ts: stream.unlock_ts,
+        full_unlock_ts: stream.full_unlock_ts,
+      });
+      return;
+    }
+    // cancelable stream: the sender can take the LP back at any time
+    if (stream?.sender) owner = stream.sender;
+
+    byOwner.set(owner, (byOwner.get(owner) ?? 0n) + amt);
+    if (opts.dev && owner === opts.dev) devRaw += amt;
+  });
+
+  const [topOwner, topAmt] = Array.from(byOwner.entries()).sort((a, b) => (b[1] > a[1] ? 1 : b[1] < a[1] ? -1 : 0))[0] ?? [];
+
+  return {
+    burned_pct: pct(burnedRaw, issued),
+    locked_pct: pct(lockedRaw, issued),
+    locks,
+    dev_pct: pct(devRaw, issued),
+    top_owner: topOwner,
+    top_owner_pct: topAmt !== undefined ? pct(topAmt, issued) : undefined,
+    proof: [explorerToken("sol", lpMint)],
+  };
+}
+
+// PumpSwap Pool: bump u8 @8, index u16 @9, creator @11, base_mint @43, quote_mint @75, lp_mint @107,
+// pool_base_token_account @139, pool_quote_token_account @171, lp_supply u64 @203
+async function analyzePumpSwap(conn: Connection, pool: string, data: Buffer, dev?: string): Promise<LpAnalysis | null> {
+  const lpMint = pk(data, 107);
+  const lp = await analyzeLpToken(conn, lpMint, { dev, mintedSupplyRaw: data.readBigUInt64LE(203) });
+  if (!lp) return null;
+
+  return {
+    dex: "PumpSwap",
+    pool,
+    model: "LP_TOKEN",
+    lp_mint: lpMint,
+    ...lp,
+    one_sided: await vaultsOneSided(conn, [pk(data, 139), pk(data, 171)]),
+    proof: [explorerAddress("sol", pool), ...lp.proof],
+  };
+}
+
+// Meteora Dynamic AMM (v1) Pool: lp_mint @8
+async function analyzeDammV1(conn: Connection, pool: string, data: Buffer, dev?: string): Promise<LpAnalysis | null> {
+  const lpMint = pk(data, 8);
+  const lp = await analyzeLpToken(conn, lpMint, { dev });
+  if (!lp) return null;
+
+  return {
+    dex: "Meteora DAMM v1",
+    pool,
+    model: "LP_TOKEN",
+    lp_mint: lpMint,
+    ...lp,
+    one_sided: null, // reserves sit in Meteora vaults (vault LP), not plain token accounts
+    proof: [explorerAddress("sol", pool), ...lp.proof],
+  };
+}
+
+/* =========================================================
+   Position pools
+   ========================================================= */
+
+// Whirlpool: tick_current_index i32 @81, token_vault_a @133, token_vault_b @213
+// Position (216 bytes): whirlpool @8, position_mint @40, liquidity u128 @72, tick_lower i32 @88, tick_upper i32 @92
+async function whirlpoolPositions(conn: Connection, program: string, pool: string, data: Buffer) {
+  const tick = data.readInt32LE(81);
+  const accounts = await listProgramAccounts(conn, program, 8, pool, 216);
+
+  const positions: Position[] = accounts.map(({ address, data: d }) => ({
+    address,
+    nft_mint: pk(d, 40),
+    liquidity: u128(d, 72),
+    locked: 0n,
+    in_range: d.readInt32LE(88) <= tick && tick < d.readInt32LE(92),
+  }));
+  return { positions, vaults: [pk(data, 133), pk(data, 213)] };
+}
+
+// Raydium CLMM PoolState: token_vault_0 @137, token_vault_1 @169, tick_current i32 @269
+// PersonalPositionState (281 bytes): nft_mint @9, pool_id @41, tick_lower i32 @73, tick_upper i32 @77, liquidity u128 @81
+async function raydiumClmmPositions(conn: Connection, program: string, pool: string, data: Buffer) {
+  const tick = data.readInt32LE(269);
+  const accounts = await listProgramAccounts(conn, program, 41, pool, 281);
+
+  const positions: Position[] = accounts.map(({ address, data: d }) => ({
+    address,
+    nft_mint: pk(d, 9),
+    liquidity: u128(d, 81),
+    locked: 0n,
+    in_range: d.readInt32LE(73) <= tick && tick < d.readInt32LE(77),
+  }));
+  return { positions, vaults: [pk(data, 137), pk(data, 169)] };
+}
+
+// DLMM LbPair: active_id i32 @76, reserve_x @152, reserve_y @184
+// PositionV2 (8120 bytes): lb_pair @8, owner @40, liquidity_shares [u128; 70] @72, lower_bin_id @7912, upper_bin_id @7916
+async function dlmmPositions(conn: Connection, program: string, pool: string, data: Buffer) {
+  const active = data.readInt32LE(76);
+  const accounts = await listProgramAccounts(conn, program, 8, pool, 8120);
+
+  const positions: Position[] = accounts.map(({ address, data: d }) => {
+    // bin shares are not comparable 1:1 across bins; good enough to rank owners
+    let shares = 0n;
+    for (let i = 0; i < 70; i++) shares += u128(d, 72 + i * 16);
+    return {
+      address,
+      owner: pk(d, 40),
+      liquidity: shares,
+      locked: 0n,
+      in_range: d.readInt32LE(7912) <= active && active <= d.readInt32LE(7916),
+    };
+  });
+  return { positions, vaults: [pk(data, 152), pk(data, 184)] };
+}
+
+// DAMM v2 Position: pool @8, nft_mint @40, unlocked_liquidity @152, vested_liquidity @168, permanent_locked_liquidity @184
+// Vaults are PDAs ["token_vault", mint, pool]; pools are full-range, so one-sidedness comes from reserves.
+async function dammV2Positions(conn: Connection, program: string, pool: string, mints: string[]) {
+  const accounts = await listProgramAccounts(conn, program, 8, pool);
+
+  const positions: Position[] = accounts.map(({ address, data: d }) => {
+    const locked = u128(d, 184);
+    return {
+      address,
+      nft_mint: pk(d, 40),
+      liquidity: u128(d, 152) + u128(d, 168) + locked,
+      locked,
+      in_range: null,
+    };
+  });
+
+  const programPk = new PublicKey(program);
+  const poolPk = new PublicKey(pool);
+  const vaults = mints.map((m) =>
+    PublicKey.findProgramAddressSync([Buffer.from("token_vault"), new PublicKey(m).toBuffer(), poolPk.toBuffer()], programPk)[0].toBase58()
+  );
+  return { positions, vaults };
+}
+
+async function summarizePositions(
+  conn: Connection,
+  dex: string,
+  pool: string,
+  positions: Position[],
+  vaults: string[],
+  dev?: string
+): Promise<LpAnalysis | null> {
+  const live = positions.filter((p) => p.liquidity > 0n);
+  if (!live.length) return null;
+
+  const total = live.reduce((a, p) => a + p.liquidity, 0n);
+  live.sort((a, b) => (b.liquidity > a.liquidity ? 1 : b.liquidity < a.liquidity ? -1 : 0));
+
+  // Resolve position NFT holders for the largest positions only
+  const nftMints = live.filter((p) => !p.owner && p.nft_mint).slice(0, MAX_OWNER_LOOKUPS).map((p) => p.nft_mint!);
+  const holders = await nftHolders(conn, nftMints);
+  for (const p of live) if (!p.owner && p.nft_mint) p.owner = holders.get(p.nft_mint);
+
+  const raydiumLocks = raydiumLockAuthorities();
+  let burned = 0n;
+  let devLiq = 0n;
+  const byOwner = new Map<string, bigint>();
+  const locks: LockShare[] = [];
+
+  for (const p of live) {
+    const permanent = p.owner === INCINERATOR || (p.owner !== undefined && raydiumLocks.has(p.owner));
+    burned += permanent ? p.liquidity : p.locked;
+    if (p.owner && raydiumLocks.has(p.owner)) {
+      locks.push({ locker: "Raydium Burn & Earn", account: p.address, pct: pct(p.liquidity, total), unlock_ts: null });
+    }
+    if (!p.owner || permanent) continue;
+    byOwner.set(p.owner, (byOwner.get(p.owner) ?? 0n) + p.liquidity - p.locked);
+    if (dev && p.owner === dev) devLiq += p.liquidity - p.locked;
+  }
+
+  const [topOwner, topAmt] = Array.from(byOwner.entries()).sort((a, b) => (b[1] > a[1] ? 1 : b[1] < a[1] ? -1 : 0))[0] ?? [];
+
+  const ranged = live.filter((p) => p.in_range !== null);
+  const outOfRange = ranged.length
+    ? pct(ranged.filter((p) => !p.in_range).reduce((a, p) => a + p.liquidity, 0n), ranged.reduce((a, p) => a + p.liquidity, 0n))
+    : null;
+
+  let oneSided = await vaultsOneSided(conn, vaults);
+  if (outOfRange !== null && outOfRange >= ONE_SIDED_OUT_OF_RANGE_PCT) oneSided = true;
+
+  const devPos = dev ? live.find((p) => p.owner === dev) : undefined;
+
+  return {
+    dex,
+    pool,
+    model: "POSITIONS",
+    burned_pct: pct(burned, total),
+    locked_pct: 0,
+    locks,
+    dev_pct: pct(devLiq, total),
+    top_owner: topOwner,
+    top_owner_pct: topAmt !== undefined ? pct(topAmt, total) : undefined,
+    one_sided: oneSided,
+    out_of_range_pct: outOfRange,
+    positions: live.length,
+    proof: [explorerAddress("sol", pool), explorerAddress("sol", (devPos ?? live[0]).address)],
+  };
+}
+
+/* =========================================================
+   Public API
+   ========================================================= */
+
+/** Dispatch on the pool account's program. Returns null for DEXes without an analyser here (Raydium AMM / CPMM). */
+export async function analyzePoolLiquidity(
+  conn: Connection,
+  pool: string,
+  opts: { mint: string; quoteMint?: string; dev?: string }
+): Promise<LpAnalysis | null> {
+  const info = await conn.getAccountInfo(new PublicKey(pool));
+  if (!info) return null;
+
+  const program = info.owner.toBase58();
+  const dex = DEX_PROGRAMS[program];
+  const data = Buffer.from(info.data);
+
+  switch (dex) {
+    case "PumpSwap":
+      return analyzePumpSwap(conn, pool, data, opts.dev);
+    case "Meteora DAMM v1":
+      return analyzeDammV1(conn, pool, data, opts.dev);
+    case "Orca Whirlpool": {
+      const r = await whirlpoolPositions(conn, program, pool, data);
+      return summarizePositions(conn, dex, pool, r.positions, r.vaults, opts.dev);
+    }
+    case "Raydium CLMM": {
+      const r = await raydiumClmmPositions(conn, program, pool, data);
+      return summarizePositions(conn, dex, pool, r.positions, r.vaults, opts.dev);
+    }
+    case "Meteora DLMM": {
+      const r = await dlmmPositions(conn, program, pool, data);
+      return summarizePositions(conn, dex, pool, r.positions, r.vaults, opts.dev);
+    }
+    case "Meteora DAMM v2": {
+      const r = await dammV2Positions(conn, program, pool, opts.quoteMint ? [opts.mint, opts.quoteMint] : []);
+      return summarizePositions(conn, dex, pool, r.positions, r.vaults, opts.dev);
+    }
+    default:
+      return null;
+  }
+}
+
+function lockedWeight(daysToUnlock: number): number {
+  if (daysToUnlock < 30) return 10;
+  if (daysToUnlock < 90) return 7;
+  if (daysToUnlock < 180) return 5;
+  if (daysToUnlock < 365) return 3;
+  return 1;
+}
+
+/** Exactly one of LP_DEV_OWNED / LP_NOT_BURNED / LP_LOCKED / LP_OK, plus LP_UNLOCK_SOON and LP_ONE_SIDED notes. */
+export function lpSignals(a: LpAnalysis, pairUrl: string): Signal[] {
+  const signals: Signal[] = [];
+  const proof = [pairUrl, ...a.proof];
+  const burned = `burned=${a.burned_pct.toFixed(2)}%`;
+  const locked = a.locked_pct > 0 ? `, locked=${a.locked_pct.toFixed(2)}%` : "";
+
+  // Earliest time-lock release decides the risk
+  const timed = a.locks.filter((l) => l.unlock_ts !== null).sort((x, y) => x.unlock_ts! - y.unlock_ts!);
+  const next = timed[0];
+  const daysToUnlock = next ? Math.max(0, (next.unlock_ts! - providerNow() / 1000) / DAY_SEC) : null;
+  const lockProof = [pairUrl, ...a.locks.slice(0, 2).map((l) => explorerAddress("sol", l.account))];
+
+  if (a.dev_pct >= LP_DEV_OWNED_PCT) {
+    signals.push({
+      id: "LP_DEV_OWNED",
+      label: `Dev wallet owns the liquidity (${a.dex})`,
+      value: `dev_owns=${a.dev_pct.toFixed(2)}%, ${burned}${locked}`,
+      weight: 15,
+      proof,
+    });
+  } else if (a.burned_pct >= LP_OK_BURNED_PCT) {
+    signals.push({
+      id: "LP_OK",
+      label: a.model === "POSITIONS" ? `Liquidity permanently locked (>=${LP_OK_BURNED_PCT}%)` : `LP burned (>=${LP_OK_BURNED_PCT}%)`,
+      value: burned,
+      weight: 0,
+      proof: a.locks.length ? lockProof : proof,
+    });
+  } else if (a.burned_pct + a.locked_pct >= LP_OK_BURNED_PCT && daysToUnlock !== null) {
+    signals.push({
+      id: "LP_LOCKED",
+      label: `LP time-locked (${next.locker}), unlocks in ${Math.floor(daysToUnlock)}d`,
+      value: `${burned}${locked}, unlock=${new Date(next.unlock_ts! * 1000).toISOString().slice(0, 10)}`,
+      weight: lockedWeight(daysToUnlock),
+      proof: lockProof,
+    });
+  } else {
+    signals.push({
+      id: "LP_NOT_BURNED",
+      label:
+        a.model === "POSITIONS"
+          ? `Liquidity positions withdrawable by their owners (${a.dex})`
+          : `LP not burned / unlocked (${a.dex})`,
+      value:
+        burned +
+        locked +
+        (a.top_owner_pct !== undefined ? `, top_owner=${a.top_owner_pct.toFixed(2)}%` : "") +
+        (a.positions !== undefined ? `, positions=${a.positions}` : ""),
+      weight: 15,
+      proof,
+    });
+  }
+
+  if (next && daysToUnlock !== null && daysToUnlock <= LP_UNLOCK_SOON_DAYS) {
+    signals.push({
+      id: "LP_UNLOCK_SOON",
+      label: `Locked LP unlocks within ${LP_UNLOCK_SOON_DAYS} days`,
+      value: `locked=${next.pct.toFixed(2)}%, unlock=${new Date(next.unlock_ts! * 1000).toISOString()}`,
+      weight: 5,
+      proof: [explorerAddress("sol", next.account)],
+    });
+  }
+
+  if (a.one_sided) {
+    signals.push({
+      id: "LP_ONE_SIDED",
+      label: "Liquidity is one-sided (little or no quote side to sell into)",
+      value: a.out_of_range_pct != null ? `out_of_range=${a.out_of_range_pct.toFixed(0)}%` : undefined,
+      weight: 0,
+      proof: [pairUrl],
+    });
+  }
+
+  return signals;
+}
@@ -0,0 +1,213 @@
+// lib/recorder.ts
+// Record / replay for provider HTTP calls (Solana RPC via `solConnection`, Helius, DexScreener, Raydium, EVM RPC).
+// `providerFetch` routes every call through `recordedFetch`: passthrough (default), record to fixture files, or
+// replay from them with no network access.
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+/*
+  PROVIDER_MODE=passthrough | record | replay
+  PROVIDER_FIXTURES_DIR=fixtures/providers   (one JSON file per distinct request: <dir>/<provider>/<hash>.json)
+  PROVIDER_REPLAY_NOW=2026-01-31T12:00:00Z   (replay clock; default: when the fixtures were last recorded, <dir>/clock.json)
+*/
+
+export type ProviderMode = "passthrough" | "record" | "replay";
+
+type Fixture = {
+  provider: string;
+  method: string;
+  url: string; // api keys redacted
+  body: any;
+  status: number;
+  content_type: string | null;
+  response: string;
+  recorded_at: string;
+};
+
+type RecorderState = { recorded: number; replayed: number; missed: string[]; clock?: number | null };
+
+const MISSED_MAX = 50;
+
+const g = globalThis as any;
+const state: RecorderState = g.__PG_RECORDER_STATE ?? (g.__PG_RECORDER_STATE = { recorded: 0, replayed: 0, missed: [] });
+
+export function providerMode(): ProviderMode {
+  const m = String(process.env.PROVIDER_MODE || "").toLowerCase();
+  return m === "record" || m === "replay" ? m : "passthrough";
+}
+
+function fixturesDir() {
+  return process.env.PROVIDER_FIXTURES_DIR || path.join("fixtures", "providers");
+}
+
+function clockFile() {
+  return path.join(fixturesDir(), "clock.json");
+}
+
+function parseNow(v: string): number | null {
+  const n = Number(v);
+  if (Number.isFinite(n) && n > 0) return n < 1e12 ? n * 1000 : n; // seconds or ms
+  const t = Date.parse(v);
+  return Number.isFinite(t) ? t : null;
+}
+
+function replayClock(): number | null {
+  if (process.env.PROVIDER_REPLAY_NOW) return parseNow(process.env.PROVIDER_REPLAY_NOW);
+  if (state.clock === undefined) {
+    try {
+      state.clock = parseNow(JSON.parse(fs.readFileSync(clockFile(), "utf8"))?.recorded_at ?? "");
+    } catch {
+      state.clock = null;
+    }
+  }
+  return state.clock;
+}
+
+/**
+ * "Now" for ages and countdowns computed from provider data (token / wallet age, lock unlocks). A replay answers with
+ * recorded responses, so it measures them against the recording time: the same fixtures always give the same score.
+ */
+export function providerNow(): number {
+  return (providerMode() === "replay" && replayClock()) || Date.now();
+}
+
+// Keyed code paths (Helius metadata, enhanced txs, holder counts) check for a key before calling out.
+// Replays never leave the process, so a placeholder is enough for them to run.
+if (providerMode() === "replay" && !process.env.HELIUS_API_KEY) process.env.HELIUS_API_KEY = "replay";
+
+/* =========================================================
+   Request keys
+   ========================================================= */
+
+function redactUrl(url: string) {
+  return url.replace(/(api[-_]?key=)[^&]+/gi, "$1***");
+}
+
+// sorted keys; JSON-RPC ids (random per request in web3.js) are not part of the key
+function normalize(v: any): any {
+  if (Array.isArray(v)) return v.map(normalize);
+  if (v && typeof v === "object") {
+    const out: any = {};
+    for (const k of Object.keys(v).sort()) if (k !== "id" || !("jsonrpc" in v)) out[k] = normalize(v[k]);
+    return out;
+  }
+  return v;
+}
+
+function parseBody(body: any): any {
+  if (body === undefined || body === null) return null;
+  const s = typeof body === "string" ? body : Buffer.isBuffer(body) ? body.toString("utf8") : String(body);
+  try {
+    return JSON.parse(s);
+  } catch {
+    return s;
+  }
+}
+
+function fixturePath(provider: string, method: string, url: string, body: any) {
+  // any Solana RPC endpoint answers the same request: recordings made against one replay against another
+  const where = provider === "solana-rpc" ? "" : redactUrl(url);
+  const key = JSON.stringify([method, where, normalize(body)]);
+  const hash = crypto.createHash("sha256").update(key).digest("hex").slice(0, 32);
+  return path.join(fixturesDir(), provider, `${hash}.json`);
+}
+
+/* =========================================================
+   Replay
+   ========================================================= */
+
+// answer with the caller's JSON-RPC ids so clients that match ids accept the recorded response
+function withRequestIds(text: string, body: any): string {
+  const ids = Array.isArray(body) ? body.map((b) => b?.id) : [body?.id];
+  if (ids.every((id) => id === undefined)) return text;
+  try {
+    const j = JSON.parse(text);
+    if (Array.isArray(j)) return JSON.stringify(j.map((r, i) => (r && typeof r === "object" ? { ...r, id: ids[i] ?? r.id } : r)));
+    if (j && typeof j === "object" && "jsonrpc" in j) return JSON.stringify({ ...j, id: ids[0] ?? j.id });
+  } catch {}
+  return text;
+}
+
+function replay(provider: string, method: string, url: string, body: any): Response {
+  const file = fixturePath(provider, method, url, body);
+  let f: Fixture;
+  try {
+    f = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch {
+    const what = `${provider} ${method} ${redactUrl(url)}${body?.method ? ` ${body.method}` : ""}`;
+    state.missed.unshift(what);
+    state.missed.length = Math.min(state.missed.length, MISSED_MAX);
+    throw new Error(`No recorded response (PROVIDER_MODE=replay): ${what}`);
+  }
+
+  state.replayed++;
+  const headers = f.content_type ? { "content-type": f.content_type } : undefined;
+  return new Response(withRequestIds(f.response, body), { status: f.status, headers });
+}
+
+/* =========================================================
+   Record
+   ========================================================= */
+
+async function record(provider: string, method: string, url: string, body: any, resp: Response): Promise<Response> {
+  const text = await resp.text();
+  const f: Fixture = {
+    provider,
+    method,
+    url: redactUrl(url),
+    body,
+    status: resp.status,
+    content_type: resp.headers.get("content-type"),
+    response: text,
+    recorded_at: new Date().toISOString(),
+  };
+
+  // failed calls are not recorded: a replay should not pin a rate-limit or outage
+  if (resp.status < 500 && resp.status !== 429) {
+    try {
+      const file = fixturePath(provider, method, url, body);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(f, null, 2) + "\n");
+      fs.writeFileSync(clockFile(), JSON.stringify({ recorded_at: f.recorded_at }) + "\n");
+      state.recorded++;
+    } catch {}
+  }
+
+  return new Response(text, { status: resp.status, statusText: resp.statusText, headers: resp.headers });
+}
+
+/* =========================================================
+   Entry point
+   ========================================================= */
+
+/** `send` performs the real request (under the provider's concurrency limit); replays never call it. */
+export async function recordedFetch(
+  provider: string,
+  input: string | URL,
+  init: RequestInit | undefined,
+  send: () => Promise<Response>
+): Promise<Response> {
+  const mode = providerMode();
+  if (mode === "passthrough") return send();
+
+  const url = String(input);
+  const method = String(init?.method || "GET").toUpperCase();
+  const body = parseBody(init?.body);
+
+  if (mode === "replay") return replay(provider, method, url, body);
+  return record(provider, method, url, body, await send());
+}
+
+export function recorderStats() {
+  const { clock, ...counts } = state;
+  const replayNow = providerMode() === "replay" ? replayClock() : null;
+  return {
+    mode: providerMode(),
+    dir: fixturesDir(),
+    ...counts,
+    missed: state.missed.slice(),
+    replay_now: replayNow ? new Date(replayNow).toISOString() : null,
+  };
+}
@@ -0,0 +1,311 @@
+// lib/risk.ts
+// Risk model: the one versioned definition (categories, caps, signal id -> category + weight, level thresholds)
+// used by server scoring, the UI and GET /api/model. Bump `version` on any change that can move a score.
+
+import type { RiskLevel, Signal } from "./types";
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+export type RiskCategory =
+  | "PERMISSIONS"
+  | "DISTRIBUTION"
+  | "LIQUIDITY"
+  | "DEV_CONTRACT"
+  | "TX_PATTERNS"
+  | "CONTEXT";
+
+/** `weight` is the model weight; `dynamic` weights are computed by the emitter (tiers, lock distance) up to `weight`. */
+export type SignalDef = { category: RiskCategory; weight: number; dynamic?: true };
+
+export type RiskModel = {
+  version: string;
+  categories: Record<RiskCategory, { label: string; cap: number }>;
+  levels: { HIGH: number; MEDIUM: number }; // minimum score for the level; below MEDIUM is LOW
+  signals: Record<string, SignalDef>;
+  prefixes: [string, RiskCategory][]; // category for ids not listed in `signals` (first match; else CONTEXT)
+};
+
+export const RISK_MODEL: RiskModel = {
+  version: "1.0.0",
+
+  categories: {
+    PERMISSIONS: { label: "PERMISSIONS", cap: 10 },
+    DISTRIBUTION: { label: "DISTRIBUTION", cap: 30 },
+    LIQUIDITY: { label: "LIQUIDITY (LP)", cap: 10 },
+    DEV_CONTRACT: { label: "DEV / CONTRACT", cap: 30 },
+    TX_PATTERNS: { label: "TX PATTERNS", cap: 20 },
+    CONTEXT: { label: "CONTEXT", cap: 0 }, // info only
+  },
+
+  levels: { HIGH: 70, MEDIUM: 35 },
+
+  signals: {
+    // PERMISSIONS
+    MINT_AUTHORITY_PRESENT: { category: "PERMISSIONS", weight: 5 },
+    FREEZE_AUTHORITY_PRESENT: { category: "PERMISSIONS", weight: 5 },
+
+    // DISTRIBUTION
+    TOP10_GT_40: { category: "DISTRIBUTION", weight: 5 },
+    TOP10_GT_60: { category: "DISTRIBUTION", weight: 10 },
+    TOP10_GT_80: { category: "DISTRIBUTION", weight: 15 },
+    DEV_HOLDS_GT_30: { category: "DISTRIBUTION", weight: 10 },
+    DEV_HOLDS_GT_50: { category: "DISTRIBUTION", weight: 15 },
+    DEV_INITIAL_BUY_GT_5: { category: "DISTRIBUTION", weight: 5 },
+    DEV_INITIAL_BUY_GT_10: { category: "DISTRIBUTION", weight: 10 },
+    DEV_INITIAL_BUY_GT_20: { category: "DISTRIBUTION", weight: 15 },
+
+    // LIQUIDITY
+    LP_NOT_BURNED: { category: "LIQUIDITY", weight: 15 },
+    LP_DEV_OWNED: { category: "LIQUIDITY", weight: 15 },
+    LP_LOCKED: { category: "LIQUIDITY", weight: 10, dynamic: true }, // less the further out the unlock
+    LP_UNLOCK_SOON: { category: "LIQUIDITY", weight: 5 },
+    LP_OK: { category: "LIQUIDITY", weight: 0 },
+    LP_ONE_SIDED: { category: "LIQUIDITY", weight: 0 },
+    LP_STATUS_UNKNOWN: { category: "LIQUIDITY", weight: 0 },
+    LP_OWNER_IN_TOP_HOLDERS: { category: "LIQUIDITY", weight: 0 },
+
+    // DEV / CONTRACT
+    BLACKLIST_OR_TRANSFER_BLOCK: { category: "DEV_CONTRACT", weight: 15 },
+    BLACKLIST_DEFAULT_FROZEN: { category: "DEV_CONTRACT", weight: 10 },
+    HIGH_TAX: { category: "DEV_CONTRACT", weight: 5, dynamic: true },
+    TAX_AUTHORITY_MUTABLE: { category: "DEV_CONTRACT", weight: 3 },
+    HOOKS_PRESENT: { category: "DEV_CONTRACT", weight: 10 },
+    HOOKS_AUTHORITY_MUTABLE: { category: "DEV_CONTRACT", weight: 3 },
+    TRANSFER_PERMANENT_DELEGATE: { category: "DEV_CONTRACT", weight: 15 },
+    TRANSFER_NON_TRANSFERABLE: { category: "DEV_CONTRACT", weight: 15 },
+    TRANSFER_PAUSABLE: { category: "DEV_CONTRACT", weight: 15, dynamic: true }, // 15 when paused now
+    WALLET_FRESH: { category: "DEV_CONTRACT", weight: 10, dynamic: true },
+    WALLET_SERIAL_DEPLOYER: { category: "DEV_CONTRACT", weight: 15, dynamic: true },
+    WALLET_COMMUNITY_RUGGED: { category: "DEV_CONTRACT", weight: 15, dynamic: true },
+
+    // TX PATTERNS
+    DEV_DUMP_EARLY: { category: "TX_PATTERNS", weight: 10 },
+    BUNDLED_LAUNCH_OR_MEV: { category: "TX_PATTERNS", weight: 5 },
+    CLUSTER_FUNDING: { category: "TX_PATTERNS", weight: 10, dynamic: true }, // 10 when the cluster holds >= 10%
+    DEV_SERIAL_RUGGER: { category: "TX_PATTERNS", weight: 15 },
+    DEV_HISTORY_EARLY_DUMPS: { category: "TX_PATTERNS", weight: 5 },
+    WALLET_SNIPER: { category: "TX_PATTERNS", weight: 10 },
+    WALLET_BUNDLER: { category: "TX_PATTERNS", weight: 10 },
+
+    // CONTEXT (info only)
+    DEV_CANDIDATE: { category: "CONTEXT", weight: 0 },
+    DEV_EARLY_SIGNER: { category: "CONTEXT", weight: 0 },
+    DEV_UNKNOWN: { category: "CONTEXT", weight: 0 },
+    DEV_SERIAL_LAUNCHER: { category: "CONTEXT", weight: 0 },
+    DEV_IN_TOP_HOLDERS_WARNING: { category: "CONTEXT", weight: 0 },
+    EARLY_SNIPERS_IN_TOP_HOLDERS: { category: "CONTEXT", weight: 0 },
+    CURVE_NEAR_COMPLETE: { category: "CONTEXT", weight: 0 },
+  },
+
+  prefixes: [
+    ["TOP10_", "DISTRIBUTION"],
+    ["DEV_HOLDS_", "DISTRIBUTION"],
+    ["DEV_INITIAL_BUY_", "DISTRIBUTION"],
+    ["LP_", "LIQUIDITY"],
+    ["BLACKLIST_", "DEV_CONTRACT"],
+    ["TAX_", "DEV_CONTRACT"],
+    ["TRANSFER_", "DEV_CONTRACT"],
+    ["HOOKS_", "DEV_CONTRACT"],
+    ["NONSTANDARD_", "DEV_CONTRACT"],
+    ["DEV_DUMP_", "TX_PATTERNS"],
+    ["BUNDLED_", "TX_PATTERNS"],
+    ["MEV_", "TX_PATTERNS"],
+    ["CLUSTER_", "TX_PATTERNS"],
+  ],
+};
+
+export const MODEL_VERSION = RISK_MODEL.version;
+
+export const RISK_CATEGORIES = Object.keys(RISK_MODEL.categories) as RiskCategory[];
+
+export const CATEGORY_MAX = Object.fromEntries(RISK_CATEGORIES.map((c) => [c, RISK_MODEL.categories[c].cap])) as Record<
+  RiskCategory,
+  number
+>;
+
+export function levelFromScore(score: number, model: RiskModel = RISK_MODEL): RiskLevel {
+  if (score >= model.levels.HIGH) return "HIGH";
+  if (score >= model.levels.MEDIUM) return "MEDIUM";
+  return "LOW";
+}
+
+export function categorizeSignalId(id: string, model: RiskModel = RISK_MODEL): RiskCategory {
+  const def = model.signals[id];
+  if (def) return def.category;
+  return model.prefixes.find(([p]) => id.startsWith(p))?.[1] ?? "CONTEXT";
+}
+
+/** Weight the score counts: the model weight (dynamic: the emitted one, capped at it); unknown ids keep theirs. */
+export function signalWeight(s: { id: string; weight?: any }, model: RiskModel = RISK_MODEL): number {
+  const w = Number(s.weight) || 0;
+  const def = model.signals[s.id];
+  if (!def) return w;
+  return def.dynamic ? clamp(w, 0, def.weight) : def.weight;
+}
+
+/** Per-category totals, each clamped to its cap. */
+export function categoryTotals(
+  signals: { id: string; weight?: any }[],
+  model: RiskModel = RISK_MODEL
+): Record<RiskCategory, number> {
+  const totals = Object.fromEntries(RISK_CATEGORIES.map((c) => [c, 0])) as Record<RiskCategory, number>;
+
+  for (const s of signals) totals[categorizeSignalId(String(s?.id || ""), model)] += signalWeight(s, model);
+  for (const c of RISK_CATEGORIES) totals[c] = clamp(totals[c], 0, model.categories[c].cap);
+
+  return totals;
+}
+
+export function computeScoreWithCaps(signals: Pick<Signal, "id" | "weight">[], model: RiskModel = RISK_MODEL) {
+  const totals = categoryTotals(signals, model);
+  const score = RISK_CATEGORIES.reduce((sum, c) => sum + totals[c], 0);
+  return clamp(score, 0, 100);
+}
+
+/** Alternative weights / caps / thresholds on top of a model (backtests compare these against the live one). */
+export type ModelOverrides = {
+  weights?: Record<string, number>;
+  caps?: Partial<Record<RiskCategory, number>>;
+  levels?: Partial<RiskModel["levels"]>;
+};
+
+export function withOverrides(base: RiskModel, o: ModelOverrides, version = `${base.version}+custom`): RiskModel {
+  const signals = { ...base.signals };
+  for (const [id, weight] of Object.entries(o.weights ?? {})) {
+    const w = Number(weight);
+    if (!Number.isFinite(w) || w < 0) continue;
+    signals[id] = { ...(signals[id] ?? { category: categorizeSignalId(id, base) }), weight: w };
+  }
+
+  const categories = { ...base.categories };
+  for (const [c, cap] of Object.entries(o.caps ?? {})) {
+    const n = Number(cap);
+    if (categories[c as RiskCategory] && Number.isFinite(n) && n >= 0) categories[c as RiskCategory] = { ...categories[c as RiskCategory], cap: n };
+  }
+
+  const level = (k: keyof RiskModel["levels"]) => {
+    const n = Number(o.levels?.[k]);
+    return o.levels?.[k] !== undefined && Number.isFinite(n) ? n : base.levels[k];
+  };
+
+  return { ...base, version, signals, categories, levels: { HIGH: level("HIGH"), MEDIUM: level("MEDIUM") } };
+}
+
+/* =========================================================
+   Explanation
+   ========================================================= */
+
+const EXACT_SEARCH_MAX = 12; // risk factors searched exhaustively for the smallest level-dropping set (up to 2^n)
+
+export type CategoryExplanation = {
+  category: RiskCategory;
+  label: string;
+  raw: number; // sum of model weights before the cap
+  cap: number;
+  counted: number; // what the score got from this category
+  capped: boolean;
+  signals: { id: string; weight: number }[];
+};
+
+export type ScoreExplanation = {
+  model_version: string;
+  score: number;
+  level: RiskLevel;
+  categories: CategoryExplanation[];
+  /** Signals that alone keep the level where it is (removing any one of them lowers it). */
+  deciding: string[];
+  /** Smallest set of risk factors whose removal drops the level one step (null when LOW). */
+  to_lower: { level: RiskLevel; score: number; remove: string[] } | null;
+};
+
+const LOWER: Record<RiskLevel, RiskLevel | null> = { HIGH: "MEDIUM", MEDIUM: "LOW", LOW: null };
+const RANK: Record<RiskLevel, number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+
+function smallestDrop(factors: { id: string; weight: number }[], all: { id: string; weight: number }[], level: RiskLevel) {
+  // uncapped category totals, and what removing each factor id takes out of them: a what-if score is a few additions
+  const raw = Object.fromEntries(RISK_CATEGORIES.map((c) => [c, 0])) as Record<RiskCategory, number>;
+  for (const s of all) raw[categorizeSignalId(s.id)] += s.weight;
+
+  const parts = Array.from(new Set(factors.map((f) => f.id))).map((id) => ({
+    id,
+    category: categorizeSignalId(id),
+    weight: all.reduce((sum, s) => (s.id === id ? sum + s.weight : sum), 0),
+  }));
+
+  const scoreWithout = (picked: number[]) => {
+    const left = { ...raw };
+    for (const i of picked) left[parts[i].category] -= parts[i].weight;
+    const score = RISK_CATEGORIES.reduce((sum, c) => sum + clamp(left[c], 0, CATEGORY_MAX[c]), 0);
+    return clamp(score, 0, 100);
+  };
+  const drops = (score: number) => RANK[levelFromScore(score)] < RANK[level];
+  const ids = (picked: number[]) => new Set(picked.map((i) => parts[i].id));
+
+  if (parts.length > EXACT_SEARCH_MAX) {
+    // greedy: heaviest first (can overshoot the true minimum on pathological inputs)
+    const order = parts.map((_, i) => i).sort((a, b) => parts[b].weight - parts[a].weight);
+    for (let n = 1; n <= order.length; n++) {
+      if (drops(scoreWithout(order.slice(0, n)))) return ids(order.slice(0, n));
+    }
+    return null;
+  }
+
+  // subsets by size; the first size with a level-dropping set wins, lowest resulting score (most decisive) among them
+  const n = parts.length;
+  for (let k = 1; k <= n; k++) {
+    let best: { picked: number[]; score: number } | null = null;
+    const picked = Array.from({ length: k }, (_, i) => i);
+    for (;;) {
+      const score = scoreWithout(picked);
+      if (drops(score) && (!best || score < best.score)) best = { picked: [...picked], score };
+
+      // next k-combination in lexicographic order
+      let i = k - 1;
+      while (i >= 0 && picked[i] === n - k + i) i--;
+      if (i < 0) break;
+      picked[i]++;
+      for (let j = i + 1; j < k; j++) picked[j] = picked[j - 1] + 1;
+    }
+    if (best) return ids(best.picked);
+  }
+  return null;
+}
+
+/** Per-category contributions, the level-deciding signals and the smallest what-if that lowers the level. */
+export function explainScore(signals: Pick<Signal, "id" | "weight">[]): ScoreExplanation {
+  const all = signals.map((s) => ({ id: String(s?.id || ""), weight: signalWeight(s) }));
+  const score = computeScoreWithCaps(all);
+  const level = levelFromScore(score);
+
+  const categories = RISK_CATEGORIES.map((c): CategoryExplanation => {
+    const own = all.filter((s) => categorizeSignalId(s.id) === c && s.weight !== 0);
+    const raw = own.reduce((sum, s) => sum + s.weight, 0);
+    const cap = CATEGORY_MAX[c];
+    const counted = clamp(raw, 0, cap);
+    return { category: c, label: RISK_MODEL.categories[c].label, raw, cap, counted, capped: raw > cap, signals: own };
+  });
+
+  // risk factors: signals that can move the score (positive weight in a counted category)
+  const factors = all.filter((s) => s.weight > 0 && CATEGORY_MAX[categorizeSignalId(s.id)] > 0);
+
+  const deciding =
+    level === "LOW"
+      ? []
+      : factors
+          .filter((f) => RANK[levelFromScore(computeScoreWithCaps(all.filter((s) => s.id !== f.id)))] < RANK[level])
+          .map((f) => f.id);
+
+  const lower = LOWER[level];
+  const drop = lower ? smallestDrop(factors, all, level) : null;
+  const to_lower =
+    lower && drop
+      ? (() => {
+          const after = computeScoreWithCaps(all.filter((s) => !drop.has(s.id)));
+          return { level: levelFromScore(after), score: after, remove: Array.from(drop) };
+        })()
+      : null;
+
+  return { model_version: MODEL_VERSION, score, level, categories, deciding, to_lower };
+}
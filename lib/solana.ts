@@ -0,0 +1,220 @@
+// lib/solana.ts
+// Shared Solana RPC connection backed by a pool of weighted endpoints: failed calls (429 / 5xx / network) retry with
+// jittered backoff on another endpoint, and an endpoint that keeps failing is skipped for a while (circuit breaker).
+// Every attempt goes through the "solana-rpc" concurrency limit and request budget (lib/limiter.ts).
+
+import { Connection } from "@solana/web3.js";
+import { sleep } from "./async";
+import { isBudgetExhausted, providerFetch } from "./limiter";
+import { providerMode } from "./recorder";
+
+/*
+  SOLANA_RPC_URLS=https://rpc-a.example/?api-key=KEY|3,https://rpc-b.example|1   (url|weight, comma separated)
+  SOLANA_RPC_URL=...                 single endpoint (used when SOLANA_RPC_URLS is unset)
+  SOLANA_RPC_RETRIES=3               retries per call after the first attempt
+  SOLANA_RPC_BREAKER_FAILURES=5      consecutive failures that open an endpoint's breaker
+  SOLANA_RPC_BREAKER_OPEN_SEC=30     how long an open endpoint is skipped before it gets a (single) trial call
+*/
+
+const PUBLIC_RPC = "https://api.mainnet-beta.solana.com";
+const BACKOFF_BASE_MS = 250;
+const BACKOFF_MAX_MS = 4000;
+
+type Endpoint = {
+  url: string;
+  name: string; // host only (no api key)
+  weight: number;
+  failures: number; // consecutive
+  open_until: number;
+  calls: number;
+  errors: number;
+  last_error: string | null;
+  trial: boolean; // a half-open trial call is in flight
+};
+
+type PoolState = { key: string; endpoints: Endpoint[] };
+
+function envNum(name: string, dflt: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n >= 0 ? n : dflt;
+}
+
+function endpointName(url: string) {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "invalid-url";
+  }
+}
+
+function configuredEndpoints(): { url: string; weight: number }[] {
+  const list = String(process.env.SOLANA_RPC_URLS || "")
+    .split(/[,\s]+/)
+    .filter(Boolean)
+    .map((entry) => {
+      const [url, w] = entry.split("|");
+      const weight = Number(w);
+      return { url, weight: Number.isFinite(weight) && weight > 0 ? weight : 1 };
+    });
+  if (list.length) return list;
+  return [{ url: process.env.SOLANA_RPC_URL || PUBLIC_RPC, weight: 1 }];
+}
+
+// one pool per process (survives dev hot reloads); rebuilt if the endpoint list changes
+const g = globalThis as any;
+
+function pool(): Endpoint[] {
+  const cfg = configuredEndpoints();
+  const key = JSON.stringify(cfg);
+  const cur: PoolState | undefined = g.__PG_RPC_POOL;
+  if (cur?.key === key) return cur.endpoints;
+
+  const endpoints: Endpoint[] = cfg.map(({ url, weight }) => ({
+    url,
+    name: endpointName(url),
+    weight,
+    failures: 0,
+    open_until: 0,
+    calls: 0,
+    errors: 0,
+    last_error: null,
+    trial: false,
+  }));
+  const next: PoolState = { key, endpoints };
+  g.__PG_RPC_POOL = next;
+  return endpoints;
+}
+
+/** Primary (first) endpoint: the URL the `Connection` is built with and the live feed's websocket is derived from. */
+export function solRpcUrl(): string {
+  return pool()[0].url;
+}
+
+/* =========================================================
+   Endpoint choice + breaker
+   ========================================================= */
+
+function breakerTripped(ep: Endpoint) {
+  return ep.failures >= envNum("SOLANA_RPC_BREAKER_FAILURES", 5);
+}
+
+// a tripped endpoint (open or half-open) only ever has one call in flight: the trial that decides whether it closes
+function claim(ep: Endpoint): Endpoint {
+  if (breakerTripped(ep)) ep.trial = true;
+  return ep;
+}
+
+/**
+ * Weighted pick among endpoints with a closed breaker (or a half-open one with no trial in flight), preferring ones
+ * this call has not tried yet. Throws when every endpoint is tripped and already has its trial call running.
+ */
+function pick(tried: Set<Endpoint>): Endpoint {
+  const eps = pool();
+  const now = Date.now();
+  const healthy = eps.filter((e) => e.open_until <= now && !e.trial);
+  const fresh = healthy.filter((e) => !tried.has(e));
+  const candidates = fresh.length ? fresh : healthy;
+
+  if (!candidates.length) {
+    // every breaker open: trial the one that reopens first rather than failing outright
+    const idle = eps.filter((e) => !e.trial);
+    if (!idle.length) throw new Error("Solana RPC: every endpoint is tripped with a trial call in flight");
+    return claim(idle.reduce((a, b) => (b.open_until < a.open_until ? b : a)));
+  }
+
+  let r = Math.random() * candidates.reduce((s, e) => s + e.weight, 0);
+  for (const e of candidates) {
+    r -= e.weight;
+    if (r <= 0) return claim(e);
+  }
+  return claim(candidates[candidates.length - 1]);
+}
+
+function succeeded(ep: Endpoint) {
+  ep.failures = 0;
+  ep.open_until = 0;
+}
+
+// past the threshold every failure (including a trial call after the open period) reopens the breaker
+function failed(ep: Endpoint, error: string) {
+  ep.errors++;
+  ep.last_error = error.slice(0, 200);
+  ep.failures++;
+  if (breakerTripped(ep)) {
+    ep.open_until = Date.now() + envNum("SOLANA_RPC_BREAKER_OPEN_SEC", 30) * 1000;
+  }
+}
+
+function retryable(status: number) {
+  return status === 429 || status >= 500;
+}
+
+// exponential with full jitter; a Retry-After header (seconds) is honoured up to BACKOFF_MAX_MS
+function backoffMs(attempt: number, retryAfter: string | null) {
+  const ra = Number(retryAfter);
+  if (Number.isFinite(ra) && ra > 0) return Math.min(ra * 1000, BACKOFF_MAX_MS);
+  return Math.random() * Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS);
+}
+
+/* =========================================================
+   Fetch
+   ========================================================= */
+
+/**
+ * `fetch` for web3.js: the URL it passes is ignored, each attempt goes to an endpoint from the pool. After the last
+ * retry the final 429 / 5xx response is returned as-is (web3.js raises its usual error).
+ */
+export async function solRpcFetch(_input: string | URL, init?: RequestInit): Promise<Response> {
+  // replays answer from fixtures: nothing to retry, and a missing fixture must not trip breakers
+  const retries = providerMode() === "replay" ? 0 : envNum("SOLANA_RPC_RETRIES", 3);
+  const tried = new Set<Endpoint>();
+
+  for (let attempt = 0; ; attempt++) {
+    const ep = pick(tried);
+    tried.add(ep);
+    ep.calls++;
+
+    let retryAfter: string | null = null;
+    try {
+      const resp = await providerFetch("solana-rpc", ep.url, init);
+      if (!retryable(resp.status)) {
+        succeeded(ep);
+        return resp;
+      }
+      failed(ep, `HTTP ${resp.status}`);
+      if (attempt >= retries) return resp;
+      retryAfter = resp.headers.get("retry-after");
+      await resp.body?.cancel().catch(() => {});
+    } catch (e: any) {
+      if (isBudgetExhausted(e)) throw e; // not the endpoint's fault
+      failed(ep, String(e?.message || e));
+      if (attempt >= retries) throw e;
+    } finally {
+      ep.trial = false;
+    }
+
+    await sleep(backoffMs(attempt, retryAfter));
+  }
+}
+
+export function solConnection(): Connection {
+  return new Connection(solRpcUrl(), {
+    commitment: "confirmed",
+    fetch: (input, init) => solRpcFetch(input as string, init as RequestInit),
+    disableRetryOnRateLimit: true, // solRpcFetch retries (on another endpoint)
+  });
+}
+
+export function rpcPoolStats() {
+  const now = Date.now();
+  return pool().map((e) => ({
+    endpoint: e.name,
+    weight: e.weight,
+    state: e.open_until > now ? "open" : breakerTripped(e) ? "half-open" : "closed",
+    trial_in_flight: e.trial,
+    calls: e.calls,
+    errors: e.errors,
+    consecutive_failures: e.failures,
+    last_error: e.last_error,
+  }));
+}
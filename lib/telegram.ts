@@ -0,0 +1,166 @@
+// lib/telegram.ts
+// Telegram Bot API client (sendMessage / editMessageText) and the compact check summary the bot replies with.
+
+import type { Chain, DevHistory, FundingCluster, LaunchpadInfo, RiskLevel, Signal } from "./types";
+
+/*
+  TELEGRAM_BOT_TOKEN=123:abc
+  TELEGRAM_WEBHOOK_SECRET=...        (setWebhook secret_token; checked on every update)
+  TELEGRAM_API_BASE=https://api.telegram.org   (point at a local stub server to test)
+  PUBLIC_BASE_URL=https://pump-guard-azure.vercel.app   (report links)
+*/
+
+const API_BASE = process.env.TELEGRAM_API_BASE || "https://api.telegram.org";
+const TIMEOUT_MS = 8000;
+const TOP_SIGNALS = 4;
+
+export function publicBaseUrl(): string {
+  return (process.env.PUBLIC_BASE_URL || "https://pump-guard-azure.vercel.app").replace(/\/+$/, "");
+}
+
+export function reportUrl(chain: Chain, address: string, type: "token" | "wallet" = "token"): string {
+  return `${publicBaseUrl()}/r/${chain}/${address}${type === "wallet" ? "?type=wallet" : ""}`;
+}
+
+/* =========================================================
+   Bot API
+   ========================================================= */
+
+async function tgCall<T = any>(method: string, params: Record<string, any>): Promise<T> {
+  const token = process.env.TELEGRAM_BOT_TOKEN;
+  if (!token) throw new Error("Missing TELEGRAM_BOT_TOKEN");
+
+  const ctrl = new AbortController();
+  const t = setTimeout(() => ctrl.abort(), TIMEOUT_MS);
+  try {
+    const resp = await fetch(`${API_BASE}/bot${token}/${method}`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(params),
+      signal: ctrl.signal,
+    });
+    const j = await resp.json().catch(() => null);
+    if (!resp.ok || !j?.ok) throw new Error(`Telegram ${method} failed: ${j?.description || resp.status}`);
+    return j.result as T;
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+export async function sendMessage(chatId: number | string, html: string, replyTo?: number): Promise<number> {
+  const msg = await tgCall<{ message_id: number }>("sendMessage", {
+    chat_id: chatId,
+    text: html,
+    parse_mode: "HTML",
+    disable_web_page_preview: true,
+    ...(replyTo ? { reply_parameters: { message_id: replyTo, allow_sending_without_reply: true } } : {}),
+  });
+  return msg.message_id;
+}
+
+export async function editMessage(chatId: number | string, messageId: number, html: string): Promise<void> {
+  await tgCall("editMessageText", {
+    chat_id: chatId,
+    message_id: messageId,
+    text: html,
+    parse_mode: "HTML",
+    disable_web_page_preview: true,
+  });
+}
+
+/* =========================================================
+   Formatting
+   ========================================================= */
+
+export function escapeHtml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** "/check@PumpGuardBot abc" -> { cmd: "check", args: ["abc"] } */
+export function parseCommand(text: string): { cmd: string; args: string[] } | null {
+  const m = text.trim().match(/^\/([a-z_]+)(?:@\w+)?(?:\s+([\s\S]*))?$/i);
+  if (!m) return null;
+  return { cmd: m[1].toLowerCase(), args: (m[2] ?? "").split(/\s+/).filter(Boolean) };
+}
+
+function levelEmoji(level: RiskLevel) {
+  return level === "HIGH" ? "🔴" : level === "MEDIUM" ? "🟡" : "🟢";
+}
+
+export function topSignals(signals: Signal[], n = TOP_SIGNALS): Signal[] {
+  return signals
+    .filter((s) => s.weight > 0)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, n);
+}
+
+/** Compact check summary (HTML parse mode). */
+export function summaryMessage(args: {
+  chain: Chain;
+  address: string;
+  title?: string;
+  score: number;
+  level: RiskLevel;
+  confidence?: string;
+  signals: Signal[];
+  deep?: "running" | "done" | "failed" | "n/a";
+}): string {
+  const lines = [
+    `${levelEmoji(args.level)} <b>${escapeHtml(args.title || "Token")}</b>`,
+    `Risk: <b>${args.score} / 100 (${args.level})</b> • ${args.chain.toUpperCase()}` +
+      (args.confidence ? ` • Confidence ${args.confidence}` : ""),
+  ];
+
+  const top = topSignals(args.signals);
+  if (top.length) {
+    lines.push("", "WHY:");
+    for (const s of top) lines.push(`• ${escapeHtml(s.label)} (+${s.weight})`);
+  }
+
+  if (args.deep === "running") lines.push("", "<i>Deep checks running…</i>");
+  if (args.deep === "failed") lines.push("", "<i>Deep checks unavailable</i>");
+
+  lines.push("", `<code>${escapeHtml(args.address)}</code>`, `<a href="${reportUrl(args.chain, args.address)}">Full report</a>`);
+  return lines.join("\n");
+}
+
+/** /deep reply: deep-only findings (signals, dev history, funding clusters, launchpad). */
+export function deepMessage(args: {
+  address: string;
+  signals: Signal[];
+  dev_history?: DevHistory | null;
+  funding_clusters?: FundingCluster[];
+  launchpad?: LaunchpadInfo | null;
+}): string {
+  const lines = [`🔎 <b>Deep checks</b> • SOL`];
+
+  const top = topSignals(args.signals, 6);
+  lines.push("");
+  if (top.length) for (const s of top) lines.push(`• ${escapeHtml(s.label)} (+${s.weight})`);
+  else lines.push("No deep risk signals.");
+
+  const facts: string[] = [];
+  const h = args.dev_history;
+  if (h && h.launches_est) {
+    facts.push(
+      `Dev: ${h.launches_est} launch(es), ${h.early_dump_count}/${h.candidate_mints_checked} early dumps, ` +
+        `${h.suspected_rugs} suspected rugs`
+    );
+  }
+
+  const c = args.funding_clusters?.[0];
+  if (c) {
+    const pct = c.supply_pct !== null ? `, ${c.supply_pct.toFixed(1)}% of supply` : "";
+    facts.push(`Funding cluster: ${c.wallets.length} early buyers share a funder${pct}`);
+  }
+
+  const lp = args.launchpad;
+  if (lp) {
+    const progress = lp.progress_pct !== null ? ` ${lp.progress_pct.toFixed(0)}%` : "";
+    facts.push(`${escapeHtml(lp.launchpad)}: ${lp.complete ? "curve complete" : `bonding curve${progress}`}`);
+  }
+  if (facts.length) lines.push("", ...facts);
+
+  lines.push("", `<code>${escapeHtml(args.address)}</code>`, `<a href="${reportUrl("sol", args.address)}">Full report</a>`);
+  return lines.join("\n");
+}
@@ -0,0 +1,236 @@
+// lib/token2022.ts
+// Token-2022 mint extension decoding (TLV) + risk signals.
+// Layout: base Mint (82 bytes) padded to 165, AccountType byte (1 = Mint),
+// then TLV entries: u16 type | u16 length | value.
+
+import { PublicKey } from "@solana/web3.js";
+import type { Signal } from "./types";
+import { explorerAddress, explorerToken } from "./explorer";
+
+export const TOKEN_2022_PROGRAM_ID = "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb";
+
+const BASE_ACCOUNT_LEN = 165;
+const ACCOUNT_TYPE_MINT = 1;
+
+// spl-token-2022 ExtensionType (only mint-side ones matter here)
+const EXT_NAMES: Record<number, string> = {
+  1: "TransferFeeConfig",
+  3: "MintCloseAuthority",
+  4: "ConfidentialTransferMint",
+  6: "DefaultAccountState",
+  9: "NonTransferable",
+  10: "InterestBearingConfig",
+  12: "PermanentDelegate",
+  14: "TransferHook",
+  16: "ConfidentialTransferFeeConfig",
+  18: "MetadataPointer",
+  19: "TokenMetadata",
+  20: "GroupPointer",
+  21: "TokenGroup",
+  22: "GroupMemberPointer",
+  23: "TokenGroupMember",
+  24: "ConfidentialMintBurn",
+  25: "ScaledUiAmount",
+  26: "Pausable",
+};
+
+export type TransferFee = { epoch: bigint; maximum_fee: bigint; basis_points: number };
+
+export type MintExtensions = {
+  names: string[];
+  transferFee?: {
+    config_authority: string | null;
+    withdraw_authority: string | null;
+    older: TransferFee;
+    newer: TransferFee;
+  };
+  transferHook?: { authority: string | null; program_id: string | null };
+  permanentDelegate?: { delegate: string | null };
+  defaultAccountState?: { state: "Uninitialized" | "Initialized" | "Frozen" };
+  nonTransferable?: boolean;
+  mintCloseAuthority?: { authority: string | null };
+  pausable?: { authority: string | null; paused: boolean };
+};
+
+/* =========================================================
+   Decoding
+   ========================================================= */
+
+// OptionalNonZeroPubkey: all-zero bytes mean "None"
+function optPubkey(buf: Buffer, off: number): string | null {
+  const b = buf.subarray(off, off + 32);
+  if (b.length < 32 || b.every((x) => x === 0)) return null;
+  return new PublicKey(b).toBase58();
+}
+
+function readTransferFee(buf: Buffer, off: number): TransferFee {
+  return {
+    epoch: buf.readBigUInt64LE(off),
+    maximum_fee: buf.readBigUInt64LE(off + 8),
+    basis_points: buf.readUInt16LE(off + 16),
+  };
+}
+
+export function decodeMintExtensions(data: Buffer): MintExtensions {
+  const out: MintExtensions = { names: [] };
+  if (data.length <= BASE_ACCOUNT_LEN) return out; // no extensions
+  if (data[BASE_ACCOUNT_LEN] !== ACCOUNT_TYPE_MINT) return out;
+
+  let off = BASE_ACCOUNT_LEN + 1;
+  while (off + 4 <= data.length) {
+    const type = data.readUInt16LE(off);
+    const len = data.readUInt16LE(off + 2);
+    const v = off + 4;
+    if (type === 0 || v + len > data.length) break; // Uninitialized / padding
+
+    out.names.push(EXT_NAMES[type] || `Unknown(${type})`);
+
+    switch (type) {
+      case 1: // TransferFeeConfig (108)
+        out.transferFee = {
+          config_authority: optPubkey(data, v),
+          withdraw_authority: optPubkey(data, v + 32),
+          // v + 64: withheld_amount u64
+          older: readTransferFee(data, v + 72),
+          newer: readTransferFee(data, v + 90),
+        };
+        break;
+      case 3: // MintCloseAuthority
+        out.mintCloseAuthority = { authority: optPubkey(data, v) };
+        break;
+      case 6: { // DefaultAccountState
+        const s = data[v];
+        out.defaultAccountState = { state: s === 2 ? "Frozen" : s === 1 ? "Initialized" : "Uninitialized" };
+        break;
+      }
+      case 9: // NonTransferable (empty)
+        out.nonTransferable = true;
+        break;
+      case 12: // PermanentDelegate
+        out.permanentDelegate = { delegate: optPubkey(data, v) };
+        break;
+      case 14: // TransferHook
+        out.transferHook = { authority: optPubkey(data, v), program_id: optPubkey(data, v + 32) };
+        break;
+      case 26: // Pausable
+        out.pausable = { authority: optPubkey(data, v), paused: data[v + 32] === 1 };
+        break;
+    }
+
+    off = v + len;
+  }
+
+  return out;
+}
+
+/** Fee in effect for the given epoch (newer fee activates at its epoch). */
+export function activeTransferFee(cfg: NonNullable<MintExtensions["transferFee"]>, epoch?: number): TransferFee {
+  if (typeof epoch !== "number") return cfg.newer;
+  return BigInt(epoch) >= cfg.newer.epoch ? cfg.newer : cfg.older;
+}
+
+/* =========================================================
+   Signals
+   ========================================================= */
+
+export function token2022Signals(mint: string, ext: MintExtensions, epoch?: number): Signal[] {
+  const signals: Signal[] = [];
+  const proof = [explorerToken("sol", mint)];
+
+  // Info only: the extension list itself does not raise the score
+  signals.push({
+    id: "CONTEXT_TOKEN_2022",
+    label: "Token-2022 mint",
+    value: ext.names.length ? ext.names.join(", ") : "no extensions",
+    weight: 0,
+    proof,
+  });
+
+  if (ext.transferFee) {
+    const fee = activeTransferFee(ext.transferFee, epoch);
+    const pct = fee.basis_points / 100;
+
+    if (fee.basis_points > 0) {
+      signals.push({
+        id: "HIGH_TAX",
+        label: "Token-2022 transfer fee on every transfer",
+        value: `fee=${fee.basis_points}bps (${pct.toFixed(2)}%), max_fee=${fee.maximum_fee.toString()}`,
+        weight: fee.basis_points >= 500 ? 5 : 2,
+        proof,
+      });
+    }
+
+    if (ext.transferFee.config_authority) {
+      signals.push({
+        id: "TAX_AUTHORITY_MUTABLE",
+        label: "Transfer fee can be changed (fee config authority present)",
+        value: ext.transferFee.config_authority,
+        weight: 3,
+        proof: [explorerAddress("sol", ext.transferFee.config_authority)],
+      });
+    }
+  }
+
+  if (ext.transferHook) {
+    if (ext.transferHook.program_id) {
+      signals.push({
+        id: "HOOKS_PRESENT",
+        label: "Transfer hook program runs on every transfer (can block sells)",
+        value: ext.transferHook.program_id,
+        weight: 10,
+        proof: [explorerAddress("sol", ext.transferHook.program_id)],
+      });
+    }
+    if (ext.transferHook.authority) {
+      signals.push({
+        id: "HOOKS_AUTHORITY_MUTABLE",
+        label: "Transfer hook program can be changed (hook authority present)",
+        value: ext.transferHook.authority,
+        weight: 3,
+        proof: [explorerAddress("sol", ext.transferHook.authority)],
+      });
+    }
+  }
+
+  if (ext.permanentDelegate?.delegate) {
+    signals.push({
+      id: "TRANSFER_PERMANENT_DELEGATE",
+      label: "Permanent delegate can transfer or burn tokens from any holder",
+      value: ext.permanentDelegate.delegate,
+      weight: 15,
+      proof: [explorerAddress("sol", ext.permanentDelegate.delegate)],
+    });
+  }
+
+  if (ext.defaultAccountState?.state === "Frozen") {
+    signals.push({
+      id: "BLACKLIST_DEFAULT_FROZEN",
+      label: "New token accounts start frozen (holders must be thawed by authority)",
+      value: "DefaultAccountState=Frozen",
+      weight: 10,
+      proof,
+    });
+  }
+
+  if (ext.nonTransferable) {
+    signals.push({
+      id: "TRANSFER_NON_TRANSFERABLE",
+      label: "Token is non-transferable (cannot be sold)",
+      value: "NonTransferable",
+      weight: 15,
+      proof,
+    });
+  }
+
+  if (ext.pausable?.authority || ext.pausable?.paused) {
+    signals.push({
+      id: "TRANSFER_PAUSABLE",
+      label: ext.pausable.paused ? "Transfers are paused" : "Transfers can be paused by authority",
+      value: ext.pausable.authority ?? "",
+      weight: ext.pausable.paused ? 15 : 5,
+      proof,
+    });
+  }
+
+  return signals;
+}
@@ -1,3 +1,6 @@
+import type { CheckResult } from "./checks";
+import type { ScoreExplanation } from "./risk";
+
 export type Chain = "sol" | "eth" | "bnb";
 export type ChainAuto = Chain | "auto";
 export type InputType = "token" | "wallet";
@@ -11,7 +14,33 @@ export type TopHolder = {
   token_account: string;
   percent: number;
   ui_amount: number;
-  tag?: "DEV" | "LP" | "EARLY" | "UNKNOWN";
+  tag?: "DEV" | "LP" | "EARLY" | "BURN" | "UNKNOWN";
+  lp_source?: "PDA" | "KNOWN_AMM" | "BONDING_CURVE"; // how LP was detected (PDA = heuristic)
+  lp_label?: string; // e.g. "Raydium AMM v4", "pump.fun bonding curve"
+};
+
+// Computed on the top-20 holders (sample) after excluding LP / burn / program accounts.
+// gini / hhi / nakamoto / holders_gt_1pct describe that sample only, not the full holder base.
+export type Concentration = {
+  scope: "top20";
+  top10_adjusted_percent: number; // % of circulating supply
+  excluded_percent: number; // LP + burn + program accounts, % of total supply
+  gini: number | null; // 0..1, among the top-20 sample
+  hhi: number; // 0..10000, top-20 sample (lower bound for the full base)
+  nakamoto: number | null; // wallets needed for >50% (null: not reached in the top-20 sample)
+  holders_gt_1pct: number; // within the top-20 sample (max 20)
+  sample_size: number;
+};
+
+export type LaunchpadInfo = {
+  launchpad: "pump.fun" | "Raydium LaunchLab" | "Moonshot";
+  curve: string; // bonding-curve account
+  complete: boolean; // curve finished (migrating / migrated)
+  progress_pct: number | null; // share of curve tokens sold
+  quote_reserve: number; // real SOL in the curve
+  quote_symbol: string;
+  creator?: string;
+  dev_initial_buy?: { creator: string; ui_amount: number; pct: number | null; sig: string };
 };
 
 export type DevHistory = {
@@ -25,6 +54,23 @@ export type DevHistory = {
   suspected_rugs: number; // heuristic among checked mints
   notes?: string[];
 };
+export type FundingCluster = {
+  wallets: string[]; // early buyers sharing a funding ancestor
+  shared_ancestors: string[];
+  supply_pct: number | null; // combined current holdings, % of supply
+  proof_sigs: string[];
+};
+export type WalletInfo = {
+  address: string;
+  age_seconds?: number;
+  tokens_deployed?: number;
+  deployed_mints?: string[];
+  funder?: string;
+  funder_label?: string;
+  tx_count?: number;
+  links?: { explorer: string };
+};
+
 export type Signal = {
   id: string;
   label: string;
@@ -36,10 +82,17 @@ export type Signal = {
 export type ScoreResponse = {
   chain: Chain;
   input_type: InputType;
-  token?: { address: string; name?: string; symbol?: string; age_seconds?: number; holders?: number; top10_percent?: number; top_holders?: TopHolder[]; links?: { explorer: string } };
+  model_version: string; // risk model that produced `risk` (GET /api/model)
+  token?: { address: string; name?: string; symbol?: string; age_seconds?: number; holders?: number; top10_percent?: number; concentration?: Concentration; top_holders?: TopHolder[]; links?: { explorer: string } };
   dev?: { address: string; links?: { explorer: string } };
+  wallet?: WalletInfo;
   dev_history?: DevHistory;
-  risk: { score: number; level: RiskLevel; confidence: Confidence; mode: "DEMO" | "LIVE" };
+  funding_clusters?: FundingCluster[];
+  launchpad?: LaunchpadInfo;
+  risk: { score: number; level: RiskLevel; confidence: Confidence; mode: "DEMO" | "LIVE"; coverage?: number }; // coverage: share of check weight that ran
+  checks?: CheckResult[]; // every check with status + duration (lib/checks.ts)
+  missing_checks?: string[]; // checks that were skipped, timed out, failed or only partly ran
   signals: Signal[];
+  explanation?: ScoreExplanation; // per-category contributions, deciding signals, what-if (lib/risk explainScore)
   community?: { rugged: number; sus: number; trusted: number; recent: { type:"RUGGED"|"SUS"|"TRUSTED"; reason?: string; ts: string }[] };
 };
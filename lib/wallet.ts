@@ -0,0 +1,391 @@
+// lib/wallet.ts
+// Wallet risk report (input_type "wallet"): age, deployed tokens, sniper / bundler
+// behaviour, funding source and community flags.
+
+import { Connection, PublicKey } from "@solana/web3.js";
+import type { Chain, Signal, WalletInfo } from "./types";
+import { explorerAddress, explorerTx } from "./explorer";
+import { heliusEnhancedTxByAddress, type HeliusEnhancedTx } from "./helius";
+import { exchangeLabel, isQuoteMint } from "./labels";
+import { fetchFlagSummary, type FlagSummary } from "./flags";
+import {
+  evmBlockNumber,
+  evmBlockTimestamp,
+  evmRpc,
+  findFirstFundedBlock,
+  findFundingTx,
+  isContract,
+  type EvmChain,
+} from "./evm";
+import { checkRecorder, type CheckItems, type CheckRecorder } from "./checks";
+import { getSupabaseAdmin } from "./supabaseAdmin";
+import { providerNow } from "./recorder";
+
+const SPL_TOKEN_PROGRAMS = [
+  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
+  "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb",
+];
+
+// Helius enhanced tx types that create a new mint
+const CREATE_TYPES = new Set(["CREATE", "INITIALIZE_MINT"]);
+
+const SNIPE_WINDOW_SEC = 30;
+const MAX_BUYS_CHECKED = 8;
+
+export type WalletMeta = WalletInfo & {
+  snipes?: number;
+  bundled_buys?: number;
+  buys_checked?: number;
+};
+
+/* =========================================================
+   Helpers
+   ========================================================= */
+
+function firstFunding(wallet: string, txs: HeliusEnhancedTx[]) {
+  for (const tx of txs) {
+    for (const nt of tx.nativeTransfers ?? []) {
+      if (nt?.toUserAccount === wallet && nt.fromUserAccount && nt.fromUserAccount !== wallet && (nt.amount ?? 0) > 0) {
+        return { funder: nt.fromUserAccount, sig: tx.signature };
+      }
+    }
+  }
+  return null;
+}
+
+/** Mints created by `wallet` (fee payer of a CREATE / INITIALIZE_MINT tx). Newest first. */
+export function createdMintsFromTxs(wallet: string, txs: HeliusEnhancedTx[]) {
+  const out: { mint: string; ts?: number; sig?: string }[] = [];
+  const seen = new Set<string>();
+
+  for (const tx of txs) {
+    if (!CREATE_TYPES.has(String(tx.type || ""))) continue;
+    if (tx.feePayer !== wallet) continue;
+
+    const mint = (tx.tokenTransfers ?? []).map((t) => t?.mint || "").find((m) => m && !isQuoteMint(m));
+    if (!mint || seen.has(mint)) continue;
+
+    seen.add(mint);
+    out.push({ mint, ts: tx.timestamp, sig: tx.signature });
+  }
+  return out;
+}
+
+/** First buy per mint (swap where the wallet receives a non-quote token). */
+function firstBuysFromTxs(wallet: string, txs: HeliusEnhancedTx[]) {
+  const buys = new Map<string, { mint: string; ts: number; slot?: number; sig?: string }>();
+
+  for (const tx of txs) {
+    if (tx.type !== "SWAP" || typeof tx.timestamp !== "number") continue;
+    for (const tt of tx.tokenTransfers ?? []) {
+      const mint = tt?.mint || "";
+      if (!mint || isQuoteMint(mint) || tt?.toUserAccount !== wallet) continue;
+      const prev = buys.get(mint);
+      if (!prev || tx.timestamp < prev.ts) {
+        buys.set(mint, { mint, ts: tx.timestamp, slot: tx.slot, sig: tx.signature });
+      }
+    }
+  }
+  return Array.from(buys.values());
+}
+
+function flagSignals(chain: Chain, wallet: string, flags: FlagSummary | null): Signal[] {
+  if (!flags || flags.rugged <= 0) return [];
+  return [
+    {
+      id: "WALLET_COMMUNITY_RUGGED",
+      label: "Community flagged this wallet as RUGGED",
+      value: `rugged=${flags.rugged}, sus=${flags.sus}, trusted=${flags.trusted}`,
+      weight: flags.rugged >= 3 ? 15 : 5,
+      proof: [explorerAddress(chain, wallet)],
+    },
+  ];
+}
+
+async function communityCheck(chain: Chain, wallet: string, checks: CheckRecorder): Promise<FlagSummary | null> {
+  if (!getSupabaseAdmin()) {
+    checks.skip("community_flags", "Supabase not configured");
+    return null;
+  }
+  return (await checks.run("community_flags", () => fetchFlagSummary(chain, "dev", wallet))) ?? null;
+}
+
+/** Flag target type of an address: "token" for a SOL mint / EVM contract, "dev" (wallet flags) otherwise. */
+export async function flagTargetType(conn: Connection, chain: Chain, address: string): Promise<"token" | "dev"> {
+  if (chain === "sol") {
+    const acc = await conn.getAccountInfo(new PublicKey(address));
+    return acc && SPL_TOKEN_PROGRAMS.includes(acc.owner.toBase58()) ? "token" : "dev";
+  }
+  return (await isContract(chain, address.toLowerCase())) ? "token" : "dev";
+}
+
+/* =========================================================
+   Solana
+   ========================================================= */
+
+export async function solWalletSignals(
+  conn: Connection,
+  wallet: string,
+  checks: CheckRecorder = checkRecorder()
+): Promise<{ signals: Signal[]; meta: WalletMeta; community: FlagSummary | null }> {
+  const signals: Signal[] = [];
+  const meta: WalletMeta = { address: wallet, links: { explorer: explorerAddress("sol", wallet) } };
+  const walletPk = new PublicKey(wallet);
+
+  // A mint or token account is not a wallet
+  const acc = await checks.run("wallet_account", () => conn.getAccountInfo(walletPk), { required: true });
+  const owner = acc?.owner?.toBase58?.();
+  if (owner && SPL_TOKEN_PROGRAMS.includes(owner)) {
+    throw new Error("Address is a token mint / token account, not a wallet");
+  }
+
+  /* ---------- Age + funding source (oldest txs) ---------- */
+
+  let oldest: HeliusEnhancedTx[] = [];
+  const firstTs = await checks.run("wallet_history", async () => {
+    try {
+      oldest = await heliusEnhancedTxByAddress(wallet, { limit: 20, sortOrder: "asc" });
+    } catch {
+      // no Helius: age via signatures below
+    }
+
+    let ts = typeof oldest[0]?.timestamp === "number" ? oldest[0].timestamp : undefined;
+    if (ts) return ts;
+
+    let before: string | undefined;
+    for (let page = 0; page < 5; page++) {
+      const sigs = await conn.getSignaturesForAddress(walletPk, { limit: 1000, before });
+      if (!sigs.length) break;
+      const last = sigs[sigs.length - 1];
+      before = last.signature;
+      if (last.blockTime) ts = last.blockTime;
+      if (sigs.length < 1000) break;
+    }
+    return ts;
+  });
+
+  if (firstTs) {
+    meta.age_seconds = Math.max(0, Math.floor(providerNow() / 1000) - firstTs);
+
+    if (meta.age_seconds < 86400) {
+      signals.push({
+        id: "WALLET_FRESH",
+        label: "Wallet is less than 1 day old",
+        value: `age=${Math.floor(meta.age_seconds / 3600)}h`,
+        weight: 10,
+        proof: [explorerAddress("sol", wallet)],
+      });
+    } else if (meta.age_seconds < 7 * 86400) {
+      signals.push({
+        id: "WALLET_FRESH",
+        label: "Wallet is less than 7 days old",
+        value: `age=${Math.floor(meta.age_seconds / 86400)}d`,
+        weight: 5,
+        proof: [explorerAddress("sol", wallet)],
+      });
+    }
+  }
+
+  const funding = firstFunding(wallet, oldest);
+  if (funding) {
+    meta.funder = funding.funder;
+    meta.funder_label = exchangeLabel(funding.funder);
+    signals.push({
+      id: "CONTEXT_WALLET_FUNDER",
+      label: meta.funder_label
+        ? `First funded from exchange (${meta.funder_label})`
+        : "First funded by another wallet",
+      value: funding.funder,
+      weight: 0,
+      proof: [funding.sig ? explorerTx("sol", funding.sig) : explorerAddress("sol", funding.funder)],
+    });
+  }
+
+  /* ---------- Recent activity: deploys + buys ---------- */
+
+  let recent: HeliusEnhancedTx[] = [];
+  if (process.env.HELIUS_API_KEY) {
+    recent = (await checks.run("wallet_activity", () => heliusEnhancedTxByAddress(wallet, { limit: 100 }))) ?? [];
+  } else {
+    checks.skip("wallet_activity", "HELIUS_API_KEY not set");
+  }
+
+  const created = createdMintsFromTxs(wallet, [...recent, ...oldest]);
+  meta.tokens_deployed = created.length;
+  meta.deployed_mints = created.map((c) => c.mint);
+
+  if (created.length >= 3) {
+    signals.push({
+      id: "WALLET_SERIAL_DEPLOYER",
+      label: "Wallet deployed many tokens (serial launcher)",
+      value: `deployed=${created.length}${recent.length >= 100 ? "+" : ""}`,
+      weight: created.length >= 10 ? 15 : 10,
+      proof: created.slice(0, 3).map((c) => (c.sig ? explorerTx("sol", c.sig) : explorerAddress("sol", c.mint))),
+    });
+  } else if (created.length > 0) {
+    signals.push({
+      id: "CONTEXT_WALLET_DEPLOYER",
+      label: "Wallet deployed token(s)",
+      value: `deployed=${created.length}`,
+      weight: 0,
+      proof: created.map((c) => (c.sig ? explorerTx("sol", c.sig) : explorerAddress("sol", c.mint))),
+    });
+  }
+
+  // Sniper / bundler: compare first buy of each mint with that mint's first tx
+  const buys = firstBuysFromTxs(wallet, recent).slice(0, MAX_BUYS_CHECKED);
+  let snipes = 0;
+  let bundled = 0;
+  const snipeProof: string[] = [];
+  const bundleProof: string[] = [];
+
+  const checkBuys = (items: CheckItems) =>
+    Promise.all(
+      buys.map(async (b) => {
+        let first: HeliusEnhancedTx | undefined;
+        try {
+          first = (await heliusEnhancedTxByAddress(b.mint, { limit: 1, sortOrder: "asc" }))[0];
+          items.ok();
+        } catch (e) {
+          items.fail(e);
+          return;
+        }
+        if (!first || typeof first.timestamp !== "number") return;
+
+        if (typeof first.slot === "number" && first.slot === b.slot) {
+          bundled++;
+          if (b.sig) bundleProof.push(explorerTx("sol", b.sig));
+        } else if (b.ts - first.timestamp <= SNIPE_WINDOW_SEC) {
+          snipes++;
+          if (b.sig) snipeProof.push(explorerTx("sol", b.sig));
+        }
+      })
+    );
+
+  if (process.env.HELIUS_API_KEY) await checks.run("wallet_buys", checkBuys);
+  else checks.skip("wallet_buys", "HELIUS_API_KEY not set");
+
+  meta.snipes = snipes;
+  meta.bundled_buys = bundled;
+  meta.buys_checked = buys.length;
+
+  if (snipes >= 3) {
+    signals.push({
+      id: "WALLET_SNIPER",
+      label: `Wallet buys tokens within ${SNIPE_WINDOW_SEC}s of launch (sniper behaviour)`,
+      value: `snipes=${snipes}/${buys.length}`,
+      weight: 10,
+      proof: snipeProof.slice(0, 3),
+    });
+  }
+
+  if (bundled >= 2) {
+    signals.push({
+      id: "WALLET_BUNDLER",
+      label: "Wallet buys in the same slot as token creation (bundled launches)",
+      value: `bundled=${bundled}/${buys.length}`,
+      weight: 10,
+      proof: bundleProof.slice(0, 3),
+    });
+  }
+
+  /* ---------- Community flags ---------- */
+
+  const community = await communityCheck("sol", wallet, checks);
+  signals.push(...flagSignals("sol", wallet, community));
+
+  return { signals, meta, community };
+}
+
+/* =========================================================
+   EVM (JSON-RPC only: age + funder, tx count, community flags)
+   ========================================================= */
+
+// Deploys and sniper / bundler buys need a wallet's tx list, which plain JSON-RPC does not index
+const EVM_NO_INDEXER = "needs a transaction indexer (not available over JSON-RPC)";
+
+export async function evmWalletSignals(
+  chain: EvmChain,
+  wallet: string,
+  checks: CheckRecorder = checkRecorder()
+): Promise<{ signals: Signal[]; meta: WalletMeta; community: FlagSummary | null }> {
+  const signals: Signal[] = [];
+  const addr = wallet.toLowerCase();
+  const meta: WalletMeta = { address: addr, links: { explorer: explorerAddress(chain, addr) } };
+
+  if (await checks.run("wallet_account", () => isContract(chain, addr), { required: true })) {
+    throw new Error("Address is a contract, not a wallet");
+  }
+
+  const nonceHex = await checks.run(
+    "tx_count",
+    () => evmRpc<string>(chain, "eth_getTransactionCount", [addr, "latest"]),
+    { required: true }
+  );
+  meta.tx_count = Number(BigInt(nonceHex || "0x0"));
+
+  /* ---------- Age + funding source (first funded block) ---------- */
+
+  // archive state only: a pruned node errors on old blocks and the check records it
+  const history = await checks.run("wallet_history", async () => {
+    const block = await findFirstFundedBlock(chain, addr, await evmBlockNumber(chain));
+    if (block === null) return null;
+    const [ts, funding] = await Promise.all([evmBlockTimestamp(chain, block), findFundingTx(chain, addr, block)]);
+    return { ts, funding };
+  });
+
+  if (history?.ts) {
+    meta.age_seconds = Math.max(0, Math.floor(providerNow() / 1000) - history.ts);
+
+    if (meta.age_seconds < 86400) {
+      signals.push({
+        id: "WALLET_FRESH",
+        label: "Wallet is less than 1 day old",
+        value: `age=${Math.floor(meta.age_seconds / 3600)}h`,
+        weight: 10,
+        proof: [explorerAddress(chain, addr)],
+      });
+    } else if (meta.age_seconds < 7 * 86400) {
+      signals.push({
+        id: "WALLET_FRESH",
+        label: "Wallet is less than 7 days old",
+        value: `age=${Math.floor(meta.age_seconds / 86400)}d`,
+        weight: 5,
+        proof: [explorerAddress(chain, addr)],
+      });
+    }
+  } else if (meta.tx_count < 5) {
+    // age unknown: fall back to the outgoing tx count
+    signals.push({
+      id: "WALLET_FRESH",
+      label: "Wallet has almost no outgoing transactions",
+      value: `tx_count=${meta.tx_count}`,
+      weight: 5,
+      proof: [explorerAddress(chain, addr)],
+    });
+  }
+
+  const funding = history?.funding;
+  if (funding) {
+    meta.funder = funding.from;
+    signals.push({
+      id: "CONTEXT_WALLET_FUNDER",
+      label: "First funded by another wallet",
+      value: funding.from,
+      weight: 0,
+      proof: [funding.hash ? explorerTx(chain, funding.hash) : explorerAddress(chain, funding.from)],
+    });
+  }
+
+  /* ---------- Deploys + buys ---------- */
+
+  checks.skip("wallet_activity", EVM_NO_INDEXER);
+  checks.skip("wallet_buys", EVM_NO_INDEXER);
+
+  /* ---------- Community flags ---------- */
+
+  const community = await communityCheck(chain, addr, checks);
+  signals.push(...flagSignals(chain, addr, community));
+
+  return { signals, meta, community };
+}
@@ -0,0 +1,263 @@
+// lib/watchlist.ts
+// Watched tokens / dev wallets: storage (Supabase `watches` or a local JSON file), due-list for the scheduled
+// re-score run, and alert evaluation (level change, new TX_PATTERNS / LIQUIDITY signal, community RUGGED flags).
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { getSupabaseAdmin } from "./supabaseAdmin";
+import { categorizeSignalId, MODEL_VERSION, type RiskCategory } from "./risk";
+import type { Chain, InputType, RiskLevel, Signal } from "./types";
+
+/*
+  WATCHLIST_FILE=.cache/watchlist.json   (local store, used when Supabase is not configured)
+*/
+
+const LOCAL_FILE = process.env.WATCHLIST_FILE || path.join(".cache", "watchlist.json");
+
+export const WATCH_MIN_INTERVAL_MIN = 5;
+export const WATCH_DEFAULT_INTERVAL_MIN = 60;
+export const WATCH_DEFAULT_RUGGED_THRESHOLD = 3;
+const MAX_WATCHES_PER_OWNER = 50;
+
+// new risk signals (weight > 0) in these categories alert (e.g. DEV_DUMP_EARLY, LP_NOT_BURNED)
+const ALERT_CATEGORIES: RiskCategory[] = ["TX_PATTERNS", "LIQUIDITY"];
+
+export type WatchState = {
+  ts: number;
+  score: number;
+  level: RiskLevel;
+  signal_ids: string[]; // base + deep
+  deep_signal_ids: string[]; // deep only (carried forward when a run's deep analysis fails)
+  rugged: number;
+};
+
+export type WatchAlert =
+  | { type: "LEVEL_CHANGED"; from: RiskLevel; to: RiskLevel; score: number }
+  | { type: "NEW_SIGNAL"; category: RiskCategory; signal: { id: string; label: string; weight: number; value?: string } }
+  | { type: "COMMUNITY_RUGGED"; rugged: number; threshold: number };
+
+export type Watch = {
+  id: string;
+  owner: string; // requester fingerprint
+  chain: Chain;
+  target_type: InputType;
+  address: string;
+  webhook_url: string;
+  secret: string; // webhook signing secret (returned once, on create)
+  interval_min: number;
+  rugged_threshold: number;
+  created_at: number;
+  next_run_at: number;
+  last: WatchState | null; // null until the first (baseline) run
+  last_alert?: { ts: number; alerts: WatchAlert[]; ok: boolean; status: number | null; error?: string } | null;
+};
+
+/** What the API returns: never the secret or owner. */
+export function publicWatch(w: Watch) {
+  const { secret, owner, ...rest } = w;
+  return rest;
+}
+
+/* =========================================================
+   Storage
+   ========================================================= */
+
+function localReadAll(): Watch[] {
+  try {
+    return JSON.parse(fs.readFileSync(LOCAL_FILE, "utf8"));
+  } catch {
+    return [];
+  }
+}
+
+function localWriteAll(list: Watch[]) {
+  fs.mkdirSync(path.dirname(LOCAL_FILE), { recursive: true });
+  fs.writeFileSync(LOCAL_FILE + ".tmp", JSON.stringify(list, null, 2));
+  fs.renameSync(LOCAL_FILE + ".tmp", LOCAL_FILE);
+}
+
+function fromRow(r: any): Watch {
+  return {
+    id: String(r.id),
+    owner: r.owner,
+    chain: r.chain,
+    target_type: r.target_type,
+    address: r.address,
+    webhook_url: r.webhook_url,
+    secret: r.secret,
+    interval_min: Number(r.interval_min),
+    rugged_threshold: Number(r.rugged_threshold),
+    created_at: Date.parse(r.created_at),
+    next_run_at: Date.parse(r.next_run_at),
+    last: r.state?.last ?? null,
+    last_alert: r.state?.last_alert ?? null,
+  };
+}
+
+function toRow(w: Watch) {
+  return {
+    owner: w.owner,
+    chain: w.chain,
+    target_type: w.target_type,
+    address: w.address,
+    webhook_url: w.webhook_url,
+    secret: w.secret,
+    interval_min: w.interval_min,
+    rugged_threshold: w.rugged_threshold,
+    created_at: new Date(w.created_at).toISOString(),
+    next_run_at: new Date(w.next_run_at).toISOString(),
+    state: { last: w.last, last_alert: w.last_alert ?? null },
+  };
+}
+
+export async function listWatches(owner: string): Promise<Watch[]> {
+  const sb = getSupabaseAdmin();
+  if (!sb) return localReadAll().filter((w) => w.owner === owner);
+
+  const { data, error } = await sb.from("watches").select("*").eq("owner", owner).order("created_at", { ascending: false });
+  if (error) throw new Error(error.message);
+  return (data ?? []).map(fromRow);
+}
+
+export async function getWatch(id: string): Promise<Watch | null> {
+  const sb = getSupabaseAdmin();
+  if (!sb) return localReadAll().find((w) => w.id === id) ?? null;
+
+  const { data, error } = await sb.from("watches").select("*").eq("id", id).maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ? fromRow(data) : null;
+}
+
+export async function createWatch(w: Omit<Watch, "id" | "created_at" | "next_run_at" | "last">): Promise<Watch> {
+  const existing = await listWatches(w.owner);
+  if (existing.length >= MAX_WATCHES_PER_OWNER) throw new Error(`Watch limit reached (${MAX_WATCHES_PER_OWNER})`);
+
+  const now = Date.now();
+  const watch: Watch = { ...w, id: crypto.randomUUID(), created_at: now, next_run_at: now, last: null, last_alert: null };
+
+  const sb = getSupabaseAdmin();
+  if (!sb) {
+    localWriteAll([...localReadAll(), watch]);
+    return watch;
+  }
+
+  const { data, error } = await sb.from("watches").insert(toRow(watch)).select("*").single();
+  if (error) throw new Error(error.message);
+  return fromRow(data);
+}
+
+export async function updateWatch(w: Watch): Promise<void> {
+  const sb = getSupabaseAdmin();
+  if (!sb) {
+    localWriteAll(localReadAll().map((x) => (x.id === w.id ? w : x)));
+    return;
+  }
+
+  const { error } = await sb.from("watches").update(toRow(w)).eq("id", w.id);
+  if (error) throw new Error(error.message);
+}
+
+/** Only the owner can delete. Returns false when nothing matched. */
+export async function deleteWatch(id: string, owner: string): Promise<boolean> {
+  const sb = getSupabaseAdmin();
+  if (!sb) {
+    const all = localReadAll();
+    const rest = all.filter((w) => !(w.id === id && w.owner === owner));
+    if (rest.length === all.length) return false;
+    localWriteAll(rest);
+    return true;
+  }
+
+  const { data, error } = await sb.from("watches").delete().eq("id", id).eq("owner", owner).select("id");
+  if (error) throw new Error(error.message);
+  return (data ?? []).length > 0;
+}
+
+/** Watches whose next run is due, oldest first. */
+export async function dueWatches(limit: number, now = Date.now()): Promise<Watch[]> {
+  const sb = getSupabaseAdmin();
+  if (!sb) {
+    return localReadAll()
+      .filter((w) => w.next_run_at <= now)
+      .sort((a, b) => a.next_run_at - b.next_run_at)
+      .slice(0, limit);
+  }
+
+  const { data, error } = await sb
+    .from("watches")
+    .select("*")
+    .lte("next_run_at", new Date(now).toISOString())
+    .order("next_run_at", { ascending: true })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+  return (data ?? []).map(fromRow);
+}
+
+/* =========================================================
+   Alerts
+   ========================================================= */
+
+/**
+ * Alerts vs the previous run. The first run only records a baseline. `deep_signals` null = deep analysis did not
+ * run this time: the previous deep ids are kept so they do not alert again once it succeeds.
+ */
+export function evaluateWatch(
+  w: Watch,
+  now: { score: number; level: RiskLevel; signals: Signal[]; deep_signals: Signal[] | null; rugged: number }
+): { alerts: WatchAlert[]; state: WatchState } {
+  const prev = w.last;
+  const carried = now.deep_signals ? [] : prev?.deep_signal_ids ?? [];
+  const deepIds = now.deep_signals ? now.deep_signals.map((s) => s.id) : carried;
+  const signals = [...now.signals, ...(now.deep_signals ?? [])];
+
+  const state: WatchState = {
+    ts: Date.now(),
+    score: now.score,
+    level: now.level,
+    signal_ids: Array.from(new Set([...signals.map((s) => s.id), ...carried])),
+    deep_signal_ids: Array.from(new Set(deepIds)),
+    rugged: now.rugged,
+  };
+
+  if (!prev) return { alerts: [], state };
+
+  const alerts: WatchAlert[] = [];
+
+  if (prev.level !== now.level) {
+    alerts.push({ type: "LEVEL_CHANGED", from: prev.level, to: now.level, score: now.score });
+  }
+
+  const seen = new Set(prev.signal_ids);
+  for (const s of signals) {
+    if (seen.has(s.id)) continue;
+    seen.add(s.id);
+    if (!(Number(s.weight) > 0)) continue; // info-only (LP_OK, LP_STATUS_UNKNOWN, ...)
+    const category = categorizeSignalId(s.id);
+    if (!ALERT_CATEGORIES.includes(category)) continue;
+    alerts.push({ type: "NEW_SIGNAL", category, signal: { id: s.id, label: s.label, weight: s.weight, value: s.value } });
+  }
+
+  if (prev.rugged < w.rugged_threshold && now.rugged >= w.rugged_threshold) {
+    alerts.push({ type: "COMMUNITY_RUGGED", rugged: now.rugged, threshold: w.rugged_threshold });
+  }
+
+  return { alerts, state };
+}
+
+/** Webhook body for `watch.alert` / `watch.test`. */
+export function alertPayload(
+  w: Watch,
+  event: "watch.alert" | "watch.test",
+  risk: { score: number; level: RiskLevel } | null,
+  alerts: WatchAlert[]
+) {
+  return {
+    event,
+    ts: new Date().toISOString(),
+    watch: { id: w.id, chain: w.chain, target_type: w.target_type, address: w.address },
+    risk,
+    model_version: MODEL_VERSION,
+    alerts,
+  };
+}
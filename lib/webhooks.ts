@@ -0,0 +1,210 @@
+// lib/webhooks.ts
+// Signed outgoing webhooks. Each request carries `x-pg-signature: t=<unix>,v1=<hex>` where v1 is
+// HMAC-SHA256(secret, "<t>.<raw body>") — receivers recompute it and reject stale timestamps.
+// Targets must resolve to public addresses (checked on create and again at connect time, so DNS cannot be rebound).
+
+import crypto from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import { sleep } from "./async";
+
+/*
+  WEBHOOK_ALLOW_HOSTS=hooks.internal.example,10.0.0.5   hosts allowed even when they resolve to a private address
+  WEBHOOK_ALLOW_PRIVATE=1                                 allow private / loopback targets (local testing only)
+*/
+
+const TIMEOUT_MS = 5000;
+const ATTEMPTS = 3;
+const BACKOFF_MS = [0, 1000, 4000];
+const TOLERANCE_SEC = 300;
+
+export type DeliveryResult = {
+  ok: boolean;
+  status: number | null;
+  attempts: number;
+  delivery_id: string;
+  error?: string;
+};
+
+export function newWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("hex")}`;
+}
+
+export function isWebhookUrl(url: string): boolean {
+  try {
+    const u = new URL(url);
+    return u.protocol === "https:" || u.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+/* =========================================================
+   Target guard (SSRF)
+   ========================================================= */
+
+// loopback, RFC1918, CGNAT, link-local (cloud metadata), multicast, unspecified, ULA
+const BLOCKED = new net.BlockList();
+for (const [a, p] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+] as const) {
+  BLOCKED.addSubnet(a, p, "ipv4");
+}
+for (const [a, p] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED.addSubnet(a, p, "ipv6");
+}
+
+function isPrivateAddress(ip: string): boolean {
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return BLOCKED.check(mapped, "ipv4");
+  const family = net.isIP(ip);
+  return family === 0 || BLOCKED.check(ip, family === 6 ? "ipv6" : "ipv4");
+}
+
+function privateAllowed(host: string) {
+  if (process.env.WEBHOOK_ALLOW_PRIVATE === "1") return true;
+  const allow = String(process.env.WEBHOOK_ALLOW_HOSTS || "")
+    .split(/[,\s]+/)
+    .filter(Boolean)
+    .map((h) => h.toLowerCase());
+  return allow.includes(host.toLowerCase());
+}
+
+function hostOf(u: URL) {
+  return u.hostname.replace(/^\[|\]$/g, ""); // IPv6 literals come bracketed
+}
+
+/** Throws unless `url` is http(s) and its host resolves only to public addresses (or is allowed explicitly). */
+export async function assertWebhookTarget(url: string): Promise<void> {
+  if (!isWebhookUrl(url)) throw new Error("webhook_url must be http(s)");
+  const host = hostOf(new URL(url));
+  if (privateAllowed(host)) return;
+
+  const addrs = net.isIP(host) ? [host] : (await dns.promises.lookup(host, { all: true })).map((a) => a.address);
+  if (!addrs.length || addrs.some(isPrivateAddress)) {
+    throw new Error("webhook_url must resolve to a public address");
+  }
+}
+
+// used as the socket's `lookup`: the address actually connected to is the one checked
+function guardedLookup(host: string): net.LookupFunction {
+  return (hostname, options, cb) => {
+    dns.lookup(hostname, options, (err, address: any, family?: number) => {
+      if (err || privateAllowed(host)) return cb(err, address, family);
+      const list: string[] = Array.isArray(address) ? address.map((a: any) => a.address) : [address];
+      if (list.some(isPrivateAddress)) return cb(new Error("webhook_url resolves to a private address"), address, family);
+      cb(null, address, family);
+    });
+  };
+}
+
+/** One POST; resolves with the status code. Redirects are not followed (a 3xx counts as rejected). */
+function post(url: string, headers: Record<string, string>, body: string, signal: AbortSignal): Promise<number> {
+  const u = new URL(url);
+  const host = hostOf(u);
+  if (net.isIP(host) && isPrivateAddress(host) && !privateAllowed(host)) {
+    return Promise.reject(new Error("webhook_url must resolve to a public address"));
+  }
+
+  const mod = u.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = mod.request(
+      u,
+      { method: "POST", headers: { ...headers, "content-length": String(Buffer.byteLength(body)) }, lookup: guardedLookup(host), signal },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      }
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+function hmac(secret: string, ts: number, body: string) {
+  return crypto.createHmac("sha256", secret).update(`${ts}.${body}`).digest("hex");
+}
+
+export function signatureHeader(secret: string, body: string, ts = Math.floor(Date.now() / 1000)): string {
+  return `t=${ts},v1=${hmac(secret, ts, body)}`;
+}
+
+/** Constant-time check of an `x-pg-signature` header against the raw body. */
+export function verifySignature(secret: string, body: string, header: string | undefined, toleranceSec = TOLERANCE_SEC) {
+  const parts = Object.fromEntries(
+    String(header || "")
+      .split(",")
+      .map((p) => p.trim().split("=") as [string, string])
+  );
+  const ts = Number(parts.t);
+  if (!Number.isFinite(ts) || !parts.v1) return false;
+  if (Math.abs(Date.now() / 1000 - ts) > toleranceSec) return false;
+
+  const expected = Buffer.from(hmac(secret, ts, body), "hex");
+  const got = Buffer.from(parts.v1, "hex");
+  return got.length === expected.length && crypto.timingSafeEqual(got, expected);
+}
+
+/** POST `payload` as JSON; retries network errors and 5xx / 429 with backoff. */
+export async function deliverWebhook(url: string, secret: string, event: string, payload: any): Promise<DeliveryResult> {
+  const delivery_id = crypto.randomUUID();
+  const body = JSON.stringify(payload);
+  let status: number | null = null;
+  let error: string | undefined;
+  let attempts = 0;
+
+  try {
+    await assertWebhookTarget(url);
+  } catch (e: any) {
+    return { ok: false, status: null, attempts, delivery_id, error: String(e?.message || e) };
+  }
+
+  for (let i = 0; i < ATTEMPTS; i++) {
+    attempts++;
+    if (BACKOFF_MS[i]) await sleep(BACKOFF_MS[i]);
+
+    const ctrl = new AbortController();
+    const t = setTimeout(() => ctrl.abort(), TIMEOUT_MS);
+    try {
+      status = await post(
+        url,
+        {
+          "content-type": "application/json",
+          "user-agent": "pumpguard-webhooks/1",
+          "x-pg-event": event,
+          "x-pg-delivery": delivery_id,
+          "x-pg-signature": signatureHeader(secret, body), // re-signed per attempt (fresh timestamp)
+        },
+        body,
+        ctrl.signal
+      );
+      error = undefined;
+      if (status >= 200 && status < 300) return { ok: true, status, attempts, delivery_id };
+      if (status < 500 && status !== 429) break; // receiver rejected it: do not retry
+      error = `HTTP ${status}`;
+    } catch (e: any) {
+      error = e?.name === "AbortError" ? "timeout" : String(e?.message || e);
+    } finally {
+      clearTimeout(t);
+    }
+  }
+
+  return { ok: false, status, attempts, delivery_id, error: error ?? (status ? `HTTP ${status}` : undefined) };
+}
@@ -0,0 +1,65 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { labelsFromFlags, parseLabelFile, runBacktest, type BacktestLabel, type BacktestVariant } from "../../lib/backtest";
+import type { Chain } from "../../lib/types";
+
+// Backtest the risk model against labelled tokens. PROVIDER_MODE=replay: re-scores them from the recorded provider
+// responses (fixtures); otherwise, and for tokens with no usable recording, re-weights the recorded score history.
+//   GET  /api/backtest?chain=sol                       community flags as labels, current model only
+//   POST /api/backtest { source: "flags" | "file", chain?, labels?, variants? }
+//     labels    (source "file") CSV text `chain,address,label[,as_of]` or a JSON array of { chain, address, label, as_of? }
+//     (a text/csv body is taken as the label file)
+//     variants  [{ name, weights?: { SIGNAL_ID: n }, caps?: { CATEGORY: n }, levels?: { HIGH?, MEDIUM? } }] compared to "current"
+// BACKTEST_SECRET   required bearer token when set
+
+const MAX_VARIANTS = 10;
+
+function parseVariants(v: any): BacktestVariant[] {
+  if (!Array.isArray(v)) return [];
+  return v
+    .filter((x) => x && typeof x === "object")
+    .slice(0, MAX_VARIANTS)
+    .map((x, i) => ({
+      name: String(x.name || `variant-${i + 1}`).slice(0, 40),
+      weights: x.weights && typeof x.weights === "object" ? x.weights : undefined,
+      caps: x.caps && typeof x.caps === "object" ? x.caps : undefined,
+      levels: x.levels && typeof x.levels === "object" ? x.levels : undefined,
+    }));
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET" && req.method !== "POST") return res.status(405).json({ error: "Method not allowed" });
+
+  const secret = process.env.BACKTEST_SECRET;
+  if (secret && req.headers.authorization !== `Bearer ${secret}`) return res.status(401).json({ error: "Unauthorized" });
+
+  const raw = req.method === "POST" ? req.body ?? {} : {};
+  const body = typeof raw === "string" ? { source: "file", labels: raw } : raw;
+  const source = req.method === "POST" ? String(body.source || "flags") : "flags";
+  const chainRaw = String(body.chain || req.query.chain || "").toLowerCase();
+  const chain = (["sol", "eth", "bnb"].includes(chainRaw) ? chainRaw : undefined) as Chain | undefined;
+
+  let labels: BacktestLabel[];
+  let labelErrors: string[] = [];
+  try {
+    if (source === "file") {
+      const parsed = parseLabelFile(body.labels ?? "");
+      labels = chain ? parsed.labels.filter((l) => l.chain === chain) : parsed.labels;
+      labelErrors = parsed.errors;
+    } else if (source === "flags") {
+      labels = await labelsFromFlags(chain);
+    } else {
+      return res.status(400).json({ error: "source must be flags or file" });
+    }
+  } catch (e: any) {
+    return res.status(400).json({ error: e?.message || "Failed to load labels" });
+  }
+
+  if (!labels.length) return res.status(400).json({ error: "No labelled tokens", label_errors: labelErrors });
+
+  try {
+    const report = await runBacktest(labels, parseVariants(body.variants));
+    return res.status(200).json({ source, chain: chain ?? null, label_errors: labelErrors, ...report });
+  } catch (e: any) {
+    return res.status(500).json({ error: e?.message || "Backtest failed" });
+  }
+}
@@ -0,0 +1,20 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { cacheStats } from "../../lib/cache";
+import { limiterStats } from "../../lib/limiter";
+import { recorderStats } from "../../lib/recorder";
+import { rpcPoolStats } from "../../lib/solana";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") return res.status(405).json({ error: "Method not allowed" });
+
+  try {
+    return res.status(200).json({
+      ...(await cacheStats()),
+      recorder: recorderStats(),
+      providers: limiterStats(),
+      rpc_pool: rpcPoolStats(),
+    });
+  } catch (e: any) {
+    return res.status(500).json({ error: e?.message || "Failed to read cache stats" });
+  }
+}
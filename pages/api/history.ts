@@ -0,0 +1,26 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { historyPoints, loadHistory } from "../../lib/history";
+import type { Chain, InputType } from "../../lib/types";
+
+// GET /api/history?chain=sol&address=...&type=token&days=30&limit=200&full=1
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") return res.status(405).json({ error: "Method not allowed" });
+
+  const chain = String(req.query.chain || "sol").toLowerCase() as Chain;
+  const address = String(req.query.address || "").trim();
+  const input_type: InputType = req.query.type === "wallet" ? "wallet" : "token";
+  if (!address) return res.status(400).json({ error: "Missing address" });
+  if (!["sol", "eth", "bnb"].includes(chain)) return res.status(400).json({ error: "Unsupported chain" });
+
+  const days = Number(req.query.days);
+  const sinceTs = Number.isFinite(days) && days > 0 ? Date.now() - days * 86_400_000 : 0;
+  const limit = Number(req.query.limit) || 200;
+  const full = req.query.full === "1";
+
+  try {
+    const snapshots = await loadHistory({ chain, input_type, address }, { sinceTs, limit, full });
+    return res.status(200).json({ chain, input_type, address, points: historyPoints(snapshots) });
+  } catch (e: any) {
+    return res.status(500).json({ error: e?.message || "Failed to load history" });
+  }
+}
@@ -0,0 +1,17 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { listHolderSnapshots } from "../../lib/holderSnapshots";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") return res.status(405).json({ error: "Method not allowed" });
+
+  const mint = String(req.query.mint || "").trim();
+  if (!mint) return res.status(400).json({ error: "Missing mint" });
+  const limit = Number(req.query.limit) || 20;
+
+  try {
+    const snapshots = await listHolderSnapshots(mint, limit);
+    return res.status(200).json({ mint, snapshots });
+  } catch (e: any) {
+    return res.status(500).json({ error: e?.message || "Failed to list snapshots" });
+  }
+}
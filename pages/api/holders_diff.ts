@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { diffHolderSnapshots, listHolderSnapshots, loadHolderSnapshot } from "../../lib/holderSnapshots";
+
+// GET /api/holders_diff?mint=...&from=<id>&to=<id>   (default: the two latest snapshots)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") return res.status(405).json({ error: "Method not allowed" });
+
+  const mint = String(req.query.mint || "").trim();
+  if (!mint) return res.status(400).json({ error: "Missing mint" });
+
+  let from = req.query.from ? String(req.query.from) : "";
+  let to = req.query.to ? String(req.query.to) : "";
+  const top = Math.max(1, Math.min(100, Number(req.query.top) || 20));
+
+  try {
+    if (!from || !to) {
+      const latest = await listHolderSnapshots(mint, 2);
+      if (latest.length < 2) {
+        return res.status(404).json({ error: "Need two holder snapshots", hint: "Run /api/holders again later" });
+      }
+      to = to || latest[0].id;
+      from = from || latest.find((s) => s.id !== to)?.id || latest[1].id;
+    }
+
+    const [a, b] = await Promise.all([loadHolderSnapshot(mint, from), loadHolderSnapshot(mint, to)]);
+    if (!a || !b) return res.status(404).json({ error: "Snapshot not found" });
+
+    // always diff older -> newer
+    const [older, newer] = a.ts <= b.ts ? [a, b] : [b, a];
+    return res.status(200).json(diffHolderSnapshots(older, newer, top));
+  } catch (e: any) {
+    return res.status(500).json({ error: e?.message || "Failed to diff snapshots" });
+  }
+}
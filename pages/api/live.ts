@@ -0,0 +1,60 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { feedStatus, recentLaunches, subscribeLaunches, type LaunchItem } from "../../lib/launchFeed";
+import type { RiskLevel } from "../../lib/types";
+import { getScore } from "../../lib/score";
+
+// GET /api/live?level=HIGH,MEDIUM   (text/event-stream)
+//   snapshot  { items: LaunchItem[], status }   recent launches, newest first
+//   launch    LaunchItem                        every status change (resolving -> queued -> scoring -> scored)
+//   status    FeedStatus                        every 30s
+// `level` only filters scored items; in-progress ones are always sent so rows can appear before their score.
+// GET /api/live?format=json returns the snapshot once (no websocket subscription is started).
+
+const STATUS_EVERY_MS = 30_000;
+const LEVELS: RiskLevel[] = ["LOW", "MEDIUM", "HIGH"];
+
+const scorer = (mint: string) => getScore(mint, "sol", "token").then((r) => r.value);
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") return res.status(405).json({ error: "Method not allowed" });
+
+  const levels = String(req.query.level || "")
+    .toUpperCase()
+    .split(",")
+    .filter((l): l is RiskLevel => LEVELS.includes(l as RiskLevel));
+  const visible = (i: LaunchItem) => !levels.length || !i.level || levels.includes(i.level);
+
+  if (req.query.format === "json") {
+    return res.status(200).json({ items: recentLaunches().filter(visible), status: feedStatus() });
+  }
+
+  res.writeHead(200, {
+    "content-type": "text/event-stream; charset=utf-8",
+    "cache-control": "no-cache, no-transform",
+    connection: "keep-alive",
+    "x-accel-buffering": "no",
+  });
+
+  const send = (event: string, data: any) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    (res as any).flush?.();
+  };
+
+  let unsubscribe: () => void = () => {};
+  try {
+    unsubscribe = subscribeLaunches(scorer, (item) => {
+      if (visible(item)) send("launch", item);
+    });
+  } catch (e: any) {
+    send("error", { error: e?.message || "Live feed unavailable" });
+    return res.end();
+  }
+
+  send("snapshot", { items: recentLaunches().filter(visible), status: feedStatus() });
+  const timer = setInterval(() => send("status", feedStatus()), STATUS_EVERY_MS);
+
+  req.on("close", () => {
+    clearInterval(timer);
+    unsubscribe();
+  });
+}
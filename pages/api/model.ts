@@ -0,0 +1,10 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { RISK_MODEL } from "../../lib/risk";
+
+// GET /api/model — the risk model scores are computed with (same object the UI bundles).
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") return res.status(405).json({ error: "Method not allowed" });
+
+  res.setHeader("cache-control", "public, max-age=300");
+  return res.status(200).json({ model_version: RISK_MODEL.version, ...RISK_MODEL });
+}
@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { detectChain, normalizeChain } from "../../../lib/detect";
+import { limiterStats } from "../../../lib/limiter";
+import { MODEL_VERSION } from "../../../lib/risk";
+import type { ChainAuto, InputType } from "../../../lib/types";
+import { scoreBatch, type BatchItem } from "../../../lib/score";
+
+const MAX_BATCH = 100;
+
+// POST /api/score/batch  { addresses: string[], chain?: "auto"|"sol"|"eth"|"bnb", type?: "token"|"wallet" }
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") return res.status(405).json({ error: "Method not allowed" });
+
+  const { addresses, chain, type } = req.body || {};
+  if (!Array.isArray(addresses) || !addresses.length) return res.status(400).json({ error: "Missing addresses" });
+
+  const unique = Array.from(new Set(addresses.map((a: any) => String(a || "").trim()).filter(Boolean)));
+  if (unique.length > MAX_BATCH) return res.status(400).json({ error: `Too many addresses (max ${MAX_BATCH})` });
+
+  const inputType: InputType = type === "wallet" ? "wallet" : "token";
+  const items: BatchItem[] = [];
+  const invalid: { input: string; ok: false; error: string }[] = [];
+
+  for (const input of unique) {
+    if (!detectChain(input)) invalid.push({ input, ok: false, error: "Invalid address" });
+    else items.push({ input, chain: normalizeChain((chain as ChainAuto) || "auto", input), inputType });
+  }
+
+  const t0 = Date.now();
+  try {
+    const results = await scoreBatch(items);
+    const byInput = new Map<string, any>([...results, ...invalid].map((r) => [r.input, r]));
+    return res.status(200).json({
+      results: unique.map((input) => byInput.get(input)), // request order
+      meta: {
+        count: unique.length,
+        model_version: MODEL_VERSION,
+        ok: results.filter((r) => r.ok).length,
+        cache_hits: results.filter((r) => r.ok && r.cache === "HIT").length,
+        ms: Date.now() - t0,
+        providers: limiterStats(),
+      },
+    });
+  } catch (e: any) {
+    return res.status(500).json({ error: e?.message || "Batch scoring failed" });
+  }
+}
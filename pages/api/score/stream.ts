@@ -0,0 +1,166 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { PublicKey } from "@solana/web3.js";
+import { cacheGet } from "../../../lib/cache";
+import { mergeChecks, withCoverage } from "../../../lib/checks";
+import { detectChain, normalizeChain } from "../../../lib/detect";
+import { holdersStep } from "../../../lib/holderScan";
+import { computeScoreWithCaps, explainScore, levelFromScore } from "../../../lib/risk";
+import type { ChainAuto, InputType, ScoreResponse, Signal } from "../../../lib/types";
+import { getScore } from "../../../lib/score";
+import { getDeep } from "../../../lib/deep";
+
+// GET /api/score/stream?input=&chain=&type=   (text/event-stream)
+//
+// Events, in arrival order (deep + holders run side by side, SOL tokens only):
+//   base         { cache, response: ScoreResponse }
+//   deep_check   { check, signals, data? }      one per deep check, only when deep actually runs
+//   deep         { cache, deep }                full deep result (also sent on a cache hit)
+//   holders      HoldersStep                    { status: "running", holders_so_far, pages } … { status: "done", holders }
+//   stage_error  { stage: "deep" | "holders", error }
+//   final        { response: ScoreResponse }    base + deep signals, capped score, holder count
+//   done         { ms }
+// `error` { error } replaces everything after it when the base score fails.
+
+const HOLDERS_MAX_PAGES = 200;
+const HEARTBEAT_MS = 15_000;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") return res.status(405).json({ error: "Method not allowed" });
+
+  const input = String(req.query.input || "").trim();
+  if (!input) return res.status(400).json({ error: "Missing input" });
+  if (!detectChain(input)) return res.status(400).json({ error: "Invalid address" });
+
+  const chain = normalizeChain((req.query.chain as ChainAuto) || "auto", input);
+  const inputType: InputType = req.query.type === "wallet" ? "wallet" : "token";
+
+  res.writeHead(200, {
+    "content-type": "text/event-stream; charset=utf-8",
+    "cache-control": "no-cache, no-transform",
+    connection: "keep-alive",
+    "x-accel-buffering": "no", // nginx / proxies: do not buffer the stream
+  });
+
+  let closed = false;
+  req.on("close", () => {
+    closed = true;
+  });
+
+  const send = (event: string, data: any) => {
+    if (closed) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    (res as any).flush?.(); // compression middleware buffers otherwise
+  };
+
+  const heartbeat = setInterval(() => {
+    if (!closed) res.write(": ping\n\n");
+  }, HEARTBEAT_MS);
+
+  const t0 = Date.now();
+
+  try {
+    let base: ScoreResponse;
+    try {
+      const { value, status } = await getScore(input, chain, inputType);
+      base = value;
+      send("base", { cache: status, response: base });
+    } catch (e: any) {
+      send("error", { error: e?.message || "Scoring failed" });
+      return;
+    }
+
+    const mint = base.token?.address;
+    const solToken = chain === "sol" && inputType === "token" && !!mint && isPubkey(mint);
+
+    let final: ScoreResponse = base;
+    if (solToken) {
+      const [deep, holders] = await Promise.all([
+        streamDeep(mint!, send),
+        streamHolders(mint!, send, () => closed),
+      ]);
+      final = mergeFinal(base, deep, holders);
+    }
+
+    send("final", { response: final });
+    send("done", { ms: Date.now() - t0 });
+  } finally {
+    clearInterval(heartbeat);
+    if (!closed) res.end();
+  }
+}
+
+/* =========================================================
+   Stages
+   ========================================================= */
+
+type Send = (event: string, data: any) => void;
+type Deep = Awaited<ReturnType<typeof getDeep>>["value"];
+
+function isPubkey(s: string) {
+  try {
+    new PublicKey(s);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function streamDeep(mint: string, send: Send): Promise<Deep | null> {
+  try {
+    const { value, status } = await getDeep(mint, (e) => send("deep_check", e));
+    send("deep", { cache: status, deep: value });
+    return value;
+  } catch (e: any) {
+    send("stage_error", { stage: "deep", error: e?.message || "deep scoring failed" });
+    return null;
+  }
+}
+
+/**
+ * Reuses a finished count from the cache, otherwise pages through the holders job in-process. A job already running
+ * for the mint (another stream, /api/holders) is continued rather than restarted.
+ */
+async function streamHolders(mint: string, send: Send, isClosed: () => boolean): Promise<number | null> {
+  const prev = await cacheGet<{ holders: number; snapshot_id?: string | null }>("holders", `final:${mint}`).catch(() => null);
+  if (prev && !prev.stale) {
+    send("holders", { status: "done", holders: prev.value.holders, snapshot_id: prev.value.snapshot_id ?? null, cached: true });
+    return prev.value.holders;
+  }
+  if (!process.env.HELIUS_API_KEY) return null;
+
+  for (let i = 0; i < HOLDERS_MAX_PAGES && !isClosed(); i++) {
+    let r = await holdersStep(mint, "step");
+    // the job timed out (dropped: the next step starts over) or was restarted by another caller (join the new one)
+    if (r.status === "expired" || r.status === "reset") r = await holdersStep(mint, "step");
+    if (r.status === "error" || r.status === "expired") {
+      send("stage_error", { stage: "holders", error: r.status === "error" ? r.error : r.hint });
+      return null;
+    }
+    send("holders", r);
+    if (r.status === "done") return r.holders;
+  }
+  return null;
+}
+
+/** Same merge as the clients did before: deep overrides base by id; score re-capped per category. */
+function mergeFinal(base: ScoreResponse, deep: Deep | null, holders: number | null): ScoreResponse {
+  const out: ScoreResponse = { ...base };
+
+  if (deep) {
+    const byId = new Map<string, Signal>();
+    base.signals.forEach((s) => byId.set(s.id, s));
+    deep.signals.forEach((s) => byId.set(s.id, s));
+    out.signals = Array.from(byId.values());
+
+    const score = computeScoreWithCaps(out.signals);
+    out.risk = { ...base.risk, score, level: levelFromScore(score) };
+    out.explanation = explainScore(out.signals);
+    if (deep.dev_history) out.dev_history = deep.dev_history;
+    if (deep.funding_clusters?.length) out.funding_clusters = deep.funding_clusters;
+    if (deep.launchpad) out.launchpad = deep.launchpad;
+  }
+
+  if (holders !== null && out.token) out.token = { ...out.token, holders };
+  // base + deep checks together decide confidence
+  return deep ? withCoverage(out, mergeChecks(base.checks, deep.checks)) : out;
+}
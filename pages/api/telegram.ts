@@ -0,0 +1,149 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import crypto from "crypto";
+import { withTimeout } from "../../lib/async";
+import { detectChain } from "../../lib/detect";
+import { submitFlag, type FlagType } from "../../lib/flags";
+import { computeScoreWithCaps, levelFromScore } from "../../lib/risk";
+import { deepMessage, editMessage, escapeHtml, parseCommand, sendMessage, summaryMessage } from "../../lib/telegram";
+import type { Signal } from "../../lib/types";
+import { getScore } from "../../lib/score";
+import { getDeep } from "../../lib/deep";
+import { solConnection } from "../../lib/solana";
+import { flagTargetType } from "../../lib/wallet";
+
+// Telegram Bot API webhook (setWebhook url=https://host/api/telegram, secret_token=TELEGRAM_WEBHOOK_SECRET).
+// /check <mint> • /deep <mint> • /flag <address> RUGGED|SUS|TRUSTED [token|wallet] reason
+//
+// Commands run inside the request (a serverless host may stop work once the response is sent), so the deep wait is
+// capped to keep each update well under Telegram's webhook timeout and the function's maxDuration. A deep run that
+// misses the cap keeps filling the cache: the next /check or /deep answers from it.
+
+export const config = { maxDuration: 60 };
+
+const DEEP_TIMEOUT_MS = 25_000;
+const FLAG_TYPES: FlagType[] = ["RUGGED", "SUS", "TRUSTED"];
+
+const HELP = [
+  "<b>PUMP.GUARD bot</b>",
+  "/check &lt;address&gt; — risk score + top signals (updated when deep checks finish)",
+  "/deep &lt;mint&gt; — deep checks only (SOL): LP, dev history, funding clusters",
+  "/flag &lt;address&gt; RUGGED|SUS|TRUSTED [token|wallet] reason — community flag (type detected when omitted)",
+].join("\n");
+
+// flags from Telegram are rate-limited per Telegram user, not per IP
+function tgFingerprint(userId: number | string) {
+  const salt = process.env.FP_SALT || "pumpguard_salt_v0";
+  return crypto.createHash("sha256").update(`tg:${userId}|${salt}`).digest("hex");
+}
+
+/* =========================================================
+   Commands
+   ========================================================= */
+
+async function cmdCheck(chatId: number, replyTo: number, address: string) {
+  const chain = detectChain(address);
+  if (!chain) return sendMessage(chatId, "Usage: /check &lt;token address&gt;", replyTo);
+
+  const { value: r } = await getScore(address, chain, "token");
+  const hasDeep = chain === "sol";
+  const base = {
+    chain,
+    address,
+    title: r.token?.name ? `${r.token.name}${r.token.symbol ? ` (${r.token.symbol})` : ""}` : r.token?.symbol,
+    confidence: r.risk.confidence,
+  };
+
+  const msgId = await sendMessage(
+    chatId,
+    summaryMessage({ ...base, score: r.risk.score, level: r.risk.level, signals: r.signals, deep: hasDeep ? "running" : "n/a" }),
+    replyTo
+  );
+  if (!hasDeep) return;
+
+  const deep = await withTimeout(getDeep(address), DEEP_TIMEOUT_MS)
+    .then((d) => d.value)
+    .catch(() => null);
+  if (!deep) {
+    await editMessage(
+      chatId,
+      msgId,
+      summaryMessage({ ...base, score: r.risk.score, level: r.risk.level, signals: r.signals, deep: "failed" })
+    );
+    return;
+  }
+
+  const byId = new Map<string, Signal>();
+  r.signals.forEach((s) => byId.set(s.id, s));
+  deep.signals.forEach((s) => byId.set(s.id, s));
+  const signals = Array.from(byId.values());
+  const score = computeScoreWithCaps(signals);
+
+  await editMessage(chatId, msgId, summaryMessage({ ...base, score, level: levelFromScore(score), signals, deep: "done" }));
+}
+
+async function cmdDeep(chatId: number, replyTo: number, address: string) {
+  if (detectChain(address) !== "sol") return sendMessage(chatId, "Usage: /deep &lt;SOL mint&gt;", replyTo);
+
+  const msgId = await sendMessage(chatId, `🔎 Running deep checks for <code>${escapeHtml(address)}</code>…`, replyTo);
+  const deep = await withTimeout(getDeep(address), DEEP_TIMEOUT_MS)
+    .then((d) => d.value)
+    .catch(() => null);
+
+  await editMessage(chatId, msgId, deep ? deepMessage({ address, ...deep }) : "Deep checks failed or timed out. Try again later.");
+}
+
+async function cmdFlag(chatId: number, replyTo: number, userId: number, args: string[]) {
+  const [address, type, ...rest] = args;
+  const chain = address ? detectChain(address) : null;
+  const flag_type = String(type || "").toUpperCase() as FlagType;
+  if (!chain || !FLAG_TYPES.includes(flag_type)) {
+    return sendMessage(chatId, "Usage: /flag &lt;address&gt; RUGGED|SUS|TRUSTED [token|wallet] reason", replyTo);
+  }
+
+  // explicit token / wallet, otherwise from the address itself (mint / contract = token); wallets are flagged as "dev"
+  const kind = String(rest[0] || "").toLowerCase();
+  const explicit = kind === "token" ? "token" : kind === "wallet" || kind === "dev" ? "dev" : null;
+  const reason = (explicit ? rest.slice(1) : rest).join(" ");
+  const target_type = explicit ?? (await flagTargetType(solConnection(), chain, address).catch(() => null));
+  if (!target_type) {
+    const hint = "Could not tell whether this is a token or a wallet: add token|wallet after the flag type.";
+    return sendMessage(chatId, hint, replyTo);
+  }
+
+  const r = await submitFlag(
+    { chain, target_type, target_address: address, flag_type, reason },
+    tgFingerprint(userId)
+  );
+  return sendMessage(chatId, r.ok ? `✅ Flagged as ${flag_type}. Thanks!` : `⚠️ ${escapeHtml(r.error)}`, replyTo);
+}
+
+/* =========================================================
+   Handler
+   ========================================================= */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") return res.status(405).json({ error: "Method not allowed" });
+
+  const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
+  if (secret && req.headers["x-telegram-bot-api-secret-token"] !== secret) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  const msg = req.body?.message ?? req.body?.channel_post;
+  const chatId: number | undefined = msg?.chat?.id;
+  const cmd = typeof msg?.text === "string" ? parseCommand(msg.text) : null;
+
+  // always 200: Telegram re-delivers failed updates
+  if (!chatId || !cmd) return res.status(200).json({ ok: true });
+
+  try {
+    if (cmd.cmd === "check") await cmdCheck(chatId, msg.message_id, cmd.args[0] ?? "");
+    else if (cmd.cmd === "deep") await cmdDeep(chatId, msg.message_id, cmd.args[0] ?? "");
+    else if (cmd.cmd === "flag") await cmdFlag(chatId, msg.message_id, msg.from?.id ?? chatId, cmd.args);
+    else if (cmd.cmd === "start" || cmd.cmd === "help") await sendMessage(chatId, HELP);
+  } catch (e: any) {
+    await sendMessage(chatId, `⚠️ ${escapeHtml(String(e?.message || e))}`, msg.message_id).catch(() => {});
+  }
+
+  return res.status(200).json({ ok: true });
+}
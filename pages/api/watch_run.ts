@@ -0,0 +1,84 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { withTimeout } from "../../lib/async";
+import { deliverWebhook } from "../../lib/webhooks";
+import { alertPayload, dueWatches, evaluateWatch, updateWatch, type Watch } from "../../lib/watchlist";
+import { fetchFlagSummary } from "../../lib/flags";
+import type { Signal } from "../../lib/types";
+import { rescore } from "../../lib/score";
+import { rescoreDeep } from "../../lib/deep";
+
+// Scheduled re-scoring. Call from cron every few minutes, e.g.
+//   */5 * * * *  curl -s -X POST -H "authorization: Bearer $WATCH_CRON_SECRET" https://host/api/watch_run
+// WATCH_CRON_SECRET   required bearer token (must be set in production)
+// WATCH_RUN_BATCH=5   watches re-scored per call (keeps one call inside serverless time limits)
+
+const DEEP_TIMEOUT_MS = 40_000;
+
+async function runWatch(w: Watch) {
+  const r = await rescore(w.address, w.chain, w.target_type);
+
+  // deep signals (LP, dev dumps, clusters) are where most TX_PATTERNS / LIQUIDITY alerts come from
+  // null = deep did not run this time (the previous deep signals are carried forward, not re-alerted)
+  let deepSignals: Signal[] | null = [];
+  if (w.chain === "sol" && w.target_type === "token") {
+    const deep = await withTimeout(rescoreDeep(w.address), DEEP_TIMEOUT_MS).catch(() => null);
+    deepSignals = deep ? deep.signals : null;
+  }
+
+  // wallet flags are stored under target_type "dev"
+  const flags = await fetchFlagSummary(w.chain, w.target_type === "wallet" ? "dev" : "token", w.address).catch(() => null);
+
+  // DEMO = scoring fell back (provider down): keep the previous baseline instead of alerting on it
+  if (r.risk.mode !== "LIVE") return { id: w.id, skipped: "demo mode", alerts: 0 };
+
+  const { alerts, state } = evaluateWatch(w, {
+    score: r.risk.score,
+    level: r.risk.level,
+    signals: r.signals,
+    deep_signals: deepSignals,
+    rugged: flags?.rugged ?? w.last?.rugged ?? 0,
+  });
+  w.last = state;
+
+  if (!alerts.length) return { id: w.id, alerts: 0 };
+
+  const payload = alertPayload(w, "watch.alert", { score: r.risk.score, level: r.risk.level }, alerts);
+  const d = await deliverWebhook(w.webhook_url, w.secret, "watch.alert", payload);
+  w.last_alert = { ts: Date.now(), alerts, ok: d.ok, status: d.status, error: d.error };
+  return { id: w.id, alerts: alerts.length, delivered: d.ok, status: d.status };
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST" && req.method !== "GET") return res.status(405).json({ error: "Method not allowed" });
+
+  const secret = process.env.WATCH_CRON_SECRET;
+  if (!secret && process.env.NODE_ENV === "production") {
+    return res.status(503).json({ error: "WATCH_CRON_SECRET is not configured" });
+  }
+  if (secret && req.headers.authorization !== `Bearer ${secret}`) return res.status(401).json({ error: "Unauthorized" });
+
+  const batch = Math.max(1, Number(process.env.WATCH_RUN_BATCH) || 5);
+  const t0 = Date.now();
+
+  try {
+    const due = await dueWatches(batch);
+    const results: any[] = [];
+
+    for (const w of due) {
+      // claim before the slow re-score so an overlapping run skips it
+      w.next_run_at = Date.now() + w.interval_min * 60_000;
+      await updateWatch(w);
+
+      try {
+        results.push(await runWatch(w));
+      } catch (e: any) {
+        results.push({ id: w.id, error: String(e?.message || e) });
+      }
+      await updateWatch(w).catch(() => {});
+    }
+
+    return res.status(200).json({ ran: results.length, results, ms: Date.now() - t0 });
+  } catch (e: any) {
+    return res.status(500).json({ error: e?.message || "Watch run failed" });
+  }
+}
@@ -0,0 +1,23 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { fingerprint } from "../../lib/fingerprint";
+import { deliverWebhook } from "../../lib/webhooks";
+import { alertPayload, getWatch } from "../../lib/watchlist";
+
+// POST /api/watch_test?id=...  — sends a signed `watch.test` event to the watch's webhook
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") return res.status(405).json({ error: "Method not allowed" });
+
+  const id = String(req.query.id || "");
+  if (!id) return res.status(400).json({ error: "Missing id" });
+
+  try {
+    const w = await getWatch(id);
+    if (!w || w.owner !== fingerprint(req)) return res.status(404).json({ error: "Watch not found" });
+
+    const risk = w.last ? { score: w.last.score, level: w.last.level } : null;
+    const delivery = await deliverWebhook(w.webhook_url, w.secret, "watch.test", alertPayload(w, "watch.test", risk, []));
+    return res.status(200).json(delivery);
+  } catch (e: any) {
+    return res.status(500).json({ error: e?.message || "Test delivery failed" });
+  }
+}
@@ -0,0 +1,66 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { fingerprint } from "../../lib/fingerprint";
+import { assertWebhookTarget, isWebhookUrl, newWebhookSecret } from "../../lib/webhooks";
+import {
+  createWatch,
+  deleteWatch,
+  listWatches,
+  publicWatch,
+  WATCH_DEFAULT_INTERVAL_MIN,
+  WATCH_DEFAULT_RUGGED_THRESHOLD,
+  WATCH_MIN_INTERVAL_MIN,
+} from "../../lib/watchlist";
+import { detectChain, normalizeChain } from "../../lib/detect";
+import type { ChainAuto } from "../../lib/types";
+
+// GET: my watches • POST { chain, target_type, address, webhook_url, interval_min?, rugged_threshold? } • DELETE ?id=
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const owner = fingerprint(req);
+
+  try {
+    if (req.method === "GET") {
+      const watches = await listWatches(owner);
+      return res.status(200).json({ watches: watches.map(publicWatch) });
+    }
+
+    if (req.method === "DELETE") {
+      const id = String(req.query.id || "");
+      if (!id) return res.status(400).json({ error: "Missing id" });
+      const ok = await deleteWatch(id, owner);
+      return ok ? res.status(200).json({ ok: true }) : res.status(404).json({ error: "Watch not found" });
+    }
+
+    if (req.method !== "POST") return res.status(405).json({ error: "Method not allowed" });
+
+    const { chain, target_type, address, webhook_url, interval_min, rugged_threshold } = req.body || {};
+    const addr = String(address || "").trim();
+    if (!addr || !webhook_url) return res.status(400).json({ error: "Missing address or webhook_url" });
+    if (!detectChain(addr)) return res.status(400).json({ error: "Invalid address" });
+    if (!isWebhookUrl(String(webhook_url))) return res.status(400).json({ error: "webhook_url must be http(s)" });
+    try {
+      await assertWebhookTarget(String(webhook_url));
+    } catch (e: any) {
+      return res.status(400).json({ error: e?.message || "Invalid webhook_url" });
+    }
+
+    const interval = Number(interval_min) || WATCH_DEFAULT_INTERVAL_MIN;
+    const threshold = Number(rugged_threshold) || WATCH_DEFAULT_RUGGED_THRESHOLD;
+    const secret = newWebhookSecret();
+
+    const watch = await createWatch({
+      owner,
+      chain: normalizeChain((chain as ChainAuto) || "auto", addr),
+      target_type: target_type === "wallet" ? "wallet" : "token",
+      address: addr,
+      webhook_url: String(webhook_url),
+      secret,
+      interval_min: Math.max(WATCH_MIN_INTERVAL_MIN, interval),
+      rugged_threshold: Math.max(1, threshold),
+    });
+
+    // the signing secret is only ever shown here
+    return res.status(200).json({ watch: publicWatch(watch), secret });
+  } catch (e: any) {
+    return res.status(500).json({ error: e?.message || "Watchlist error" });
+  }
+}
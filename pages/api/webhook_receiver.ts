@@ -0,0 +1,53 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { verifySignature } from "../../lib/webhooks";
+import { getWatch } from "../../lib/watchlist";
+import { cacheGet, cacheSet } from "../../lib/cache";
+
+// Local test receiver: point a watch's webhook_url at http://localhost:3000/api/webhook_receiver.
+// POST verifies x-pg-signature with the watch's secret (or WEBHOOK_RECEIVER_SECRET); GET lists the last deliveries.
+// Not served in production (GET would expose stored payloads).
+
+export const config = { api: { bodyParser: false } };
+
+const KEEP = 20;
+
+async function rawBody(req: NextApiRequest): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const c of req) chunks.push(typeof c === "string" ? Buffer.from(c) : c);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (process.env.NODE_ENV === "production") return res.status(404).json({ error: "Not found" });
+
+  if (req.method === "GET") {
+    const list = (await cacheGet<any[]>("webhooks", "received"))?.value ?? [];
+    return res.status(200).json({ received: list });
+  }
+  if (req.method !== "POST") return res.status(405).json({ error: "Method not allowed" });
+
+  const body = await rawBody(req);
+  let payload: any = null;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return res.status(400).json({ error: "Invalid JSON" });
+  }
+
+  const watch = payload?.watch?.id ? await getWatch(String(payload.watch.id)).catch(() => null) : null;
+  const secret = process.env.WEBHOOK_RECEIVER_SECRET || watch?.secret;
+  const verified = Boolean(secret) && verifySignature(secret!, body, req.headers["x-pg-signature"] as string | undefined);
+
+  const entry = {
+    ts: new Date().toISOString(),
+    event: req.headers["x-pg-event"] ?? null,
+    delivery: req.headers["x-pg-delivery"] ?? null,
+    verified,
+    payload,
+  };
+  const list = (await cacheGet<any[]>("webhooks", "received"))?.value ?? [];
+  await cacheSet("webhooks", "received", [entry, ...list].slice(0, KEEP), 24 * 60 * 60_000);
+
+  if (!verified) return res.status(401).json({ error: "Bad signature" });
+  return res.status(200).json({ ok: true });
+}
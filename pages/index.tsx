@@ -1,6 +1,13 @@
-import { useMemo, useState, useEffect } from "react";
+import { useMemo, useState, useEffect, useRef } from "react";
 import type { ChainAuto, ScoreResponse, Signal } from "../lib/types";
 import { detectChain } from "../lib/detect";
+import {
+  computeScoreWithCaps,
+  explainScore,
+  levelFromScore,
+  RISK_MODEL,
+  type RiskCategory,
+} from "../lib/risk";
 
 /* =========================
    Helpers
@@ -15,7 +22,7 @@ function RiskBadge({ level }: { level: RiskLevel | string }) {
 
 // confidence = trust → HIGH green, LOW red
 function ConfidenceBadge({ level }: { level: RiskLevel | string }) {
-  const emoji = level === "HIGH" ? "🟢" : level === "MEDIUM" ? "🟡" : "🔴";
+  const emoji = level === "HIGH" ? "🟢" : level === "MED" || level === "MEDIUM" ? "🟡" : "🔴";
   return <span className="badge">{emoji} {String(level)}</span>;
 }
 
@@ -55,6 +62,8 @@ function getProofLinks(signal: any): { label: string; url: string }[] {
         if (url.includes("solscan.io")) label = "Solscan";
         else if (url.includes("solana.fm")) label = "SolanaFM";
         else if (url.includes("birdeye.so")) label = "Birdeye";
+        else if (url.includes("etherscan.io")) label = "Etherscan";
+        else if (url.includes("bscscan.com")) label = "BscScan";
         else if (url.includes("dexscreener.com")) label = "Dexscreener";
         return { label, url };
       });
@@ -100,12 +109,6 @@ function mergeSignals(base: Signal[], deep: Signal[]) {
 
 type VerdictLevel = "LOW" | "MEDIUM" | "HIGH";
 
-function verdictFromScore(score: number): VerdictLevel {
-  if (score >= 67) return "HIGH";
-  if (score >= 34) return "MEDIUM";
-  return "LOW";
-}
-
 const VERDICT_COPY: Record<VerdictLevel, { headline: string; bullets: string[]; action: string }> = {
   LOW: {
     headline: "Low risk signals detected",
@@ -291,108 +294,91 @@ type FlagsResp = {
 };
 
 /* =========================
-   Risk breakdown (by model)
-   ========================= */
-
-type SignalCategory = "PERMISSIONS" | "DISTRIBUTION" | "LIQUIDITY" | "DEV_CONTRACT" | "TX_PATTERNS";
-
-function categorizeSignalId(id: string): SignalCategory | null {
-  const x = String(id || "").toUpperCase();
-
-  if (x.includes("MINT_AUTHORITY") || x.includes("FREEZE_AUTHORITY")) return "PERMISSIONS";
-  if (x.startsWith("TOP10_") || x.startsWith("DEV_HOLDS_")) return "DISTRIBUTION";
-  if (x.startsWith("LP_")) return "LIQUIDITY";
-
-  if (
-    x.includes("BLACKLIST") ||
-    x.includes("TRANSFER_BLOCK") ||
-    x.includes("HIGH_TAX") ||
-    x.includes("NONSTANDARD_TRANSFER") ||
-    x.includes("HOOK")
-  ) return "DEV_CONTRACT";
-
-  if (x.includes("DEV_DUMP") || x.includes("BUNDLED") || x.includes("MEV") || x.includes("CLUSTER"))
-    return "TX_PATTERNS";
-
-  return null;
-}
-
-const CATEGORY_CAP: Record<SignalCategory, number> = {
-  PERMISSIONS: 10,
-  DISTRIBUTION: 30,
-  LIQUIDITY: 15,
-  DEV_CONTRACT: 25,
-  TX_PATTERNS: 20,
-};
-
-function sumByCategory(signals: { id: string; weight?: any }[]) {
-  const buckets: Record<SignalCategory, number> = {
-    PERMISSIONS: 0,
-    DISTRIBUTION: 0,
-    LIQUIDITY: 0,
-    DEV_CONTRACT: 0,
-    TX_PATTERNS: 0,
-  };
-
-  for (const s of signals || []) {
-    const cat = categorizeSignalId(String(s?.id ?? ""));
-    if (!cat) continue;
-    const w = Number(s?.weight ?? 0) || 0;
-    buckets[cat] += w;
-  }
-
-  (Object.keys(buckets) as SignalCategory[]).forEach(cat => {
-    buckets[cat] = Math.max(0, Math.min(CATEGORY_CAP[cat], buckets[cat]));
-  });
-
-  return buckets;
-}
-
-/* =========================
-   WHY model (11 criteria)
+   WHY model (criteria per risk-model category)
    ========================= */
 
 type WhyRow = { id: string; label: string; points: number };
+type WhyGroup = { category: RiskCategory; title: string; cap: number; rows: WhyRow[] };
+
+// points / caps come from the shared risk model (lib/risk.ts, GET /api/model)
+const modelPoints = (id: string) => RISK_MODEL.signals[id]?.weight ?? 0;
+const modelCap = (c: RiskCategory) => RISK_MODEL.categories[c].cap;
+const modelTitle = (c: RiskCategory) => RISK_MODEL.categories[c].label;
 
-const WHY_GROUPS: { title: string; cap: number; rows: WhyRow[] }[] = [
+const WHY_GROUPS: WhyGroup[] = [
   {
-    title: "PERMISSIONS",
-    cap: 10,
+    category: "PERMISSIONS",
+    title: modelTitle("PERMISSIONS"),
+    cap: modelCap("PERMISSIONS"),
     rows: [
-      { id: "MINT_AUTHORITY_PRESENT", label: "Mint authority present", points: 5 },
-      { id: "FREEZE_AUTHORITY_PRESENT", label: "Freeze authority present", points: 5 },
+      { id: "MINT_AUTHORITY_PRESENT", label: "Mint authority present", points: modelPoints("MINT_AUTHORITY_PRESENT") },
+      { id: "FREEZE_AUTHORITY_PRESENT", label: "Freeze authority present", points: modelPoints("FREEZE_AUTHORITY_PRESENT") },
     ],
   },
   {
-    title: "DISTRIBUTION",
-    cap: 30,
+    category: "DISTRIBUTION",
+    title: modelTitle("DISTRIBUTION"),
+    cap: modelCap("DISTRIBUTION"),
     rows: [
-      { id: "TOP10_DYNAMIC", label: "Top-10 token accounts >", points: 0 },
+      { id: "TOP10_DYNAMIC", label: "Top-10 holders (excl. LP/burn) >", points: 0 },
       { id: "DEV_HOLDS_DYNAMIC", label: "Dev wallet holds >", points: 0 },
     ],
   },
   {
-    title: "TX PATTERNS",
-    cap: 20,
+    category: "TX_PATTERNS",
+    title: modelTitle("TX_PATTERNS"),
+    cap: modelCap("TX_PATTERNS"),
+    rows: [
+      { id: "DEV_DUMP_EARLY", label: "Dev dumps shortly after launch", points: modelPoints("DEV_DUMP_EARLY") },
+      { id: "BUNDLED_LAUNCH_OR_MEV", label: "Bundled launch / sniper / MEV", points: modelPoints("BUNDLED_LAUNCH_OR_MEV") },
+      { id: "CLUSTER_FUNDING", label: "Cluster funding (shared funder, up to 3 hops)", points: modelPoints("CLUSTER_FUNDING") },
+      { id: "DEV_SERIAL_RUGGER", label: "Dev rugged previous launches", points: modelPoints("DEV_SERIAL_RUGGER") },
+    ],
+  },
+  {
+    category: "DEV_CONTRACT",
+    title: modelTitle("DEV_CONTRACT"),
+    cap: modelCap("DEV_CONTRACT"),
+    rows: [
+      { id: "BLACKLIST_OR_TRANSFER_BLOCK", label: "Blacklist / transfer blocking", points: modelPoints("BLACKLIST_OR_TRANSFER_BLOCK") },
+      { id: "HIGH_TAX", label: "High buy/sell tax", points: modelPoints("HIGH_TAX") },
+      { id: "HOOKS_PRESENT", label: "Transfer hook program (Token-2022)", points: modelPoints("HOOKS_PRESENT") },
+      { id: "TRANSFER_PERMANENT_DELEGATE", label: "Permanent delegate (Token-2022)", points: modelPoints("TRANSFER_PERMANENT_DELEGATE") },
+    ],
+  },
+  {
+    category: "LIQUIDITY",
+    title: modelTitle("LIQUIDITY"),
+    cap: modelCap("LIQUIDITY"),
     rows: [
-      { id: "DEV_DUMP_EARLY", label: "Dev dumps shortly after launch", points: 10 },
-      { id: "BUNDLED_LAUNCH_OR_MEV", label: "Bundled launch / sniper / MEV", points: 5 },
-      { id: "CLUSTER_FUNDING", label: "Cluster funding", points: 5 },
+      { id: "LP_NOT_BURNED", label: "LP not burned / unlocked", points: modelPoints("LP_NOT_BURNED") },
+      { id: "LP_DEV_OWNED", label: "Liquidity owned by dev wallet", points: modelPoints("LP_DEV_OWNED") },
+      { id: "LP_LOCKED", label: "LP time-locked (less the further out the unlock)", points: modelPoints("LP_LOCKED") },
+      { id: "LP_UNLOCK_SOON", label: "LP unlocks within 7 days", points: modelPoints("LP_UNLOCK_SOON") },
     ],
   },
+];
+
+// Wallet reports (input_type "wallet")
+const WALLET_WHY_GROUPS: WhyGroup[] = [
   {
-    title: "DEV / CONTRACT",
-    cap: 30,
+    category: "DEV_CONTRACT",
+    title: modelTitle("DEV_CONTRACT"),
+    cap: modelCap("DEV_CONTRACT"),
     rows: [
-      { id: "BLACKLIST_OR_TRANSFER_BLOCK", label: "Blacklist / transfer blocking", points: 15 },
-      { id: "HIGH_TAX", label: "High buy/sell tax", points: 5 },
-      { id: "NONSTANDARD_TRANSFER", label: "Non-standard transfer logic / hooks", points: 5 },
+      { id: "WALLET_FRESH", label: "Fresh wallet (< 7 days)", points: modelPoints("WALLET_FRESH") },
+      { id: "WALLET_SERIAL_DEPLOYER", label: "Serial token deployer", points: modelPoints("WALLET_SERIAL_DEPLOYER") },
+      { id: "WALLET_COMMUNITY_RUGGED", label: "Flagged RUGGED by community", points: modelPoints("WALLET_COMMUNITY_RUGGED") },
     ],
   },
   {
-    title: "LIQUIDITY (LP)",
-    cap: 15,
-    rows: [{ id: "LP_NOT_BURNED", label: "LP not burned / unlocked", points: 15 }],
+    category: "TX_PATTERNS",
+    title: modelTitle("TX_PATTERNS"),
+    cap: modelCap("TX_PATTERNS"),
+    rows: [
+      { id: "WALLET_SNIPER", label: "Snipes new launches", points: modelPoints("WALLET_SNIPER") },
+      { id: "WALLET_BUNDLER", label: "Buys in creation slot (bundler)", points: modelPoints("WALLET_BUNDLER") },
+    ],
   },
 ];
 
@@ -483,101 +469,113 @@ export default function Home() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [target?.chain, target?.target_type, target?.target_address]);
 
-  /* ---------- Main request ---------- */
-  async function run() {
-async function loadHoldersSol(mint: string) {
-  const runId = Date.now();
-  (loadHoldersSol as any)._runId = runId;
-
-  try {
-    setHoldersLoading(true);
-    setHoldersSoFar(null);
-    setHoldersPages(null);
-
-    const m = encodeURIComponent(mint);
-
-    await fetch(`/api/holders?mint=${m}&action=start`).catch(() => {});
-
-    const MAX_STEPS = 200;   // больше, чтобы не обрубало
-    const DELAY_MS = 250;    // быстрее, чем 350
-
-    for (let i = 0; i < MAX_STEPS; i++) {
-      if ((loadHoldersSol as any)._runId !== runId) return;
+  /* ---------- Main request (one SSE stream: base -> deep checks / holders -> final) ---------- */
+  const streamRef = useRef<EventSource | null>(null);
 
-      const r = await fetch(`/api/holders?mint=${m}&action=step`);
-const j = await r.json().catch(() => null);
+  useEffect(() => () => streamRef.current?.close(), []);
 
-if (!j) {
-  await new Promise(res => setTimeout(res, DELAY_MS));
-  continue;
-}
-
-if (j.status === "running") {
-  // backend отдаёт { holders_so_far: number, pages: number }
-  // но на всякий случай поддержим строку тоже
-  const soFar = typeof j.holders_so_far === "number" ? j.holders_so_far : Number(j.holders_so_far);
-  const pages = typeof j.pages === "number" ? j.pages : Number(j.pages);
-
-  if (!Number.isNaN(soFar)) setHoldersSoFar(soFar);
-  if (!Number.isNaN(pages)) setHoldersPages(pages);
-}
-
-      if (j.status === "done") {
-        const holders = Number(j.holders);
-        if (Number.isFinite(holders)) {
-          setData(prev => {
-            if (!prev?.token) return prev;
-            return { ...prev, token: { ...prev.token, holders } };
-          });
-        }
-        return;
-      }
+  function run() {
+    streamRef.current?.close();
 
-      if (j.status === "error") return;
-
-      await new Promise(res => setTimeout(res, DELAY_MS));
-    }
-  } finally {
-    if ((loadHoldersSol as any)._runId === runId) {
-      setHoldersLoading(false);
-    }
-  }
-}
     setLoading(true);
     setDeepLoading(false);
+    setHoldersLoading(false);
+    setHoldersSoFar(null);
+    setHoldersPages(null);
     setError("");
     setData(null);
     setDeepSignals([]);
     setFlags(null);
 
-    try {
-      const qs = new URLSearchParams({ input, chain, type });
-      const res = await fetch(`/api/score?${qs.toString()}`);
-      const j = await res.json();
-      if (!res.ok) throw new Error(j?.error || "Request failed");
-      setData(j);
-      // holders incremental (SOL token)
-if ((j?.chain || chain) === "sol" && type === "token" && j?.token?.address) {
-  loadHoldersSol(j.token.address);
-}
+    const qs = new URLSearchParams({ input, chain, type });
+    const es = new EventSource(`/api/score/stream?${qs.toString()}`);
+    streamRef.current = es;
+
+    let finished = false;
+    const finish = () => {
+      finished = true;
+      es.close();
+      setLoading(false);
+      setDeepLoading(false);
+      setHoldersLoading(false);
+    };
+    const on = (event: string, fn: (j: any) => void) =>
+      es.addEventListener(event, (e) => {
+        if (streamRef.current !== es) return; // superseded by a newer run
+        try {
+          fn(JSON.parse((e as MessageEvent).data));
+        } catch {}
+      });
 
-      // start deep in background (only for SOL tokens)
-      const effectiveChain = (j?.chain || chain) as string;
-      if (effectiveChain === "sol" && type === "token") {
+    on("base", (j) => {
+      const r: ScoreResponse = j.response;
+      setData(r);
+      setLoading(false);
+      // deep checks + incremental holders only run for SOL tokens
+      if (r.chain === "sol" && r.input_type === "token") {
         setDeepLoading(true);
-        fetch(`/api/score_deep?chain=sol&input=${encodeURIComponent(input)}`)
-          .then(r => r.json())
-          .then(j2 => {
-            if (Array.isArray(j2?.signals)) setDeepSignals(j2.signals);
-          })
-          .catch(() => {})
-          .finally(() => setDeepLoading(false));
+        setHoldersLoading(true);
       }
-    } catch (e: any) {
-      setError(e?.message || "Unknown error");
-    } finally {
-      setLoading(false);
-    }
+    });
+
+    on("deep_check", (j) => {
+      if (Array.isArray(j?.signals) && j.signals.length) setDeepSignals((prev) => [...prev, ...j.signals]);
+    });
+
+    on("deep", (j) => {
+      const d = j?.deep;
+      if (Array.isArray(d?.signals)) setDeepSignals(d.signals);
+      if (d?.dev_history) setData((prev) => (prev ? { ...prev, dev_history: d.dev_history } : prev));
+      setDeepLoading(false);
+    });
+
+    on("holders", (j) => {
+      if (j?.status === "running") {
+        if (Number.isFinite(j.holders_so_far)) setHoldersSoFar(j.holders_so_far);
+        if (Number.isFinite(j.pages)) setHoldersPages(j.pages);
+      }
+      if (j?.status === "done") {
+        const holders = Number(j.holders);
+        if (Number.isFinite(holders)) {
+          setData((prev) => (prev?.token ? { ...prev, token: { ...prev.token, holders } } : prev));
+        }
+        setHoldersLoading(false);
+      }
+    });
+
+    // final = base + deep merged server-side: only its check coverage is new here
+    on("final", (j) => {
+      const r: ScoreResponse | undefined = j?.response;
+      if (!r?.checks) return;
+      setData((prev) =>
+        prev
+          ? {
+              ...prev,
+              risk: { ...prev.risk, confidence: r.risk.confidence, coverage: r.risk.coverage },
+              checks: r.checks,
+              missing_checks: r.missing_checks,
+            }
+          : prev
+      );
+    });
+
+    on("stage_error", (j) => {
+      if (j?.stage === "deep") setDeepLoading(false);
+      if (j?.stage === "holders") setHoldersLoading(false);
+    });
+
+    on("done", finish);
+
+    // server-sent `error` carries data; a bare `error` is the connection dropping (EventSource would reconnect)
+    es.addEventListener("error", (e) => {
+      if (streamRef.current !== es || finished) return;
+      let msg = "Stream interrupted";
+      try {
+        msg = JSON.parse((e as MessageEvent).data)?.error || msg;
+      } catch {}
+      setError(msg);
+      finish();
+    });
   }
 
   // merged signals (deep overwrites base)
@@ -585,24 +583,26 @@ if ((j?.chain || chain) === "sol" && type === "token" && j?.token?.address) {
     if (!data) return [];
     return mergeSignals(data.signals ?? [], deepSignals ?? []);
   }, [data, deepSignals]);
-  const mergedScore = useMemo(() => {
-  return (mergedSignals || []).reduce((sum, s: any) => sum + (Number(s?.weight) || 0), 0);
-}, [mergedSignals]);
-  const mergedLevel = useMemo(() => verdictFromScore(mergedScore), [mergedScore]);
+  // same capped model as the server, so the score shown before "final" matches it
+  const mergedScore = useMemo(() => computeScoreWithCaps(mergedSignals || []), [mergedSignals]);
+  const mergedLevel = useMemo(() => levelFromScore(mergedScore), [mergedScore]);
+  // what counted per category, which signals decide the level, what would lower it
+  const explanation = useMemo(() => explainScore(mergedSignals), [mergedSignals]);
+  const signalLabel = (id: string) => mergedSignals.find(s => s.id === id)?.label || id;
 
   /* ---------- Dynamic rows ---------- */
   function resolveTop10() {
     if (!data) return null;
-    if (mergedSignals.find(s => s.id === "TOP10_GT_80")) return { txt: "80%", pts: 15, id: "TOP10_GT_80" };
-    if (mergedSignals.find(s => s.id === "TOP10_GT_60")) return { txt: "60%", pts: 10, id: "TOP10_GT_60" };
-    if (mergedSignals.find(s => s.id === "TOP10_GT_40")) return { txt: "40%", pts: 5, id: "TOP10_GT_40" };
+    if (mergedSignals.find(s => s.id === "TOP10_GT_80")) return { txt: "80%", pts: modelPoints("TOP10_GT_80"), id: "TOP10_GT_80" };
+    if (mergedSignals.find(s => s.id === "TOP10_GT_60")) return { txt: "60%", pts: modelPoints("TOP10_GT_60"), id: "TOP10_GT_60" };
+    if (mergedSignals.find(s => s.id === "TOP10_GT_40")) return { txt: "40%", pts: modelPoints("TOP10_GT_40"), id: "TOP10_GT_40" };
     return null;
   }
 
   function resolveDevHolds() {
     if (!data) return null;
-    if (mergedSignals.find(s => s.id === "DEV_HOLDS_GT_50")) return { txt: "50%", pts: 15, id: "DEV_HOLDS_GT_50" };
-    if (mergedSignals.find(s => s.id === "DEV_HOLDS_GT_30")) return { txt: "30%", pts: 10, id: "DEV_HOLDS_GT_30" };
+    if (mergedSignals.find(s => s.id === "DEV_HOLDS_GT_50")) return { txt: "50%", pts: modelPoints("DEV_HOLDS_GT_50"), id: "DEV_HOLDS_GT_50" };
+    if (mergedSignals.find(s => s.id === "DEV_HOLDS_GT_30")) return { txt: "30%", pts: modelPoints("DEV_HOLDS_GT_30"), id: "DEV_HOLDS_GT_30" };
     return null;
   }
 
@@ -630,10 +630,15 @@ if ((j?.chain || chain) === "sol" && type === "token" && j?.token?.address) {
     "DEV_DUMP_EARLY",
     "BUNDLED_LAUNCH_OR_MEV",
     "CLUSTER_FUNDING",
-    "NONSTANDARD_TRANSFER",
+    "DEV_SERIAL_RUGGER",
+    "HOOKS_PRESENT",
+    "TRANSFER_PERMANENT_DELEGATE",
     "BLACKLIST_OR_TRANSFER_BLOCK",
     "HIGH_TAX",
     "LP_NOT_BURNED",
+    "LP_DEV_OWNED",
+    "LP_LOCKED",
+    "LP_UNLOCK_SOON",
   ];
 
   const hasAnyDeepSignal = useMemo(() => {
@@ -647,7 +652,9 @@ if ((j?.chain || chain) === "sol" && type === "token" && j?.token?.address) {
           <div className="brand">
             PUMP<span className="grad">.GUARD</span> <span className="small">MVP</span>
           </div>
-          <div className="small">Not financial advice. Just signals.</div>
+          <div className="small">
+            <a href="/live">Live launches</a> • Not financial advice. Just signals.
+          </div>
         </div>
       </div>
 
@@ -684,6 +691,11 @@ if ((j?.chain || chain) === "sol" && type === "token" && j?.token?.address) {
                 <option value="bnb">bnb</option>
               </select>
 
+              <select className="input" value={type} onChange={(e) => setType(e.target.value as any)}>
+                <option value="token">token</option>
+                <option value="wallet">wallet</option>
+              </select>
+
               <button className="btn btn-primary" disabled={!input || loading} onClick={run}>
                 {loading ? "Checking..." : "Check risk"}
               </button>
@@ -710,22 +722,54 @@ if ((j?.chain || chain) === "sol" && type === "token" && j?.token?.address) {
               </>
             )}
 
-            <div className="small">Dev wallet</div>
-            <div style={{ wordBreak: "break-all" }}>{data?.dev?.address ?? "—"}</div>
+            {data?.input_type === "wallet" ? (
+              <>
+                <div className="small">Wallet</div>
+                <div style={{ wordBreak: "break-all" }}>{data.wallet?.address ?? data.dev?.address ?? "—"}</div>
 
-            <div style={{ height: 8 }} />
+                <div style={{ height: 8 }} />
 
-            <div className="small">Token age</div>
-            <div>{formatAge(data?.token?.age_seconds)}</div>
+                <div className="small">Wallet age</div>
+                <div>{formatAge(data.wallet?.age_seconds)}</div>
 
-            <div style={{ height: 8 }} />
+                <div style={{ height: 8 }} />
 
-            <div className="small">Holders</div>
-<div>
-  {holdersLoading
-    ? (holdersSoFar !== null ? `Loading… (${holdersSoFar}+)` : "Loading…")
-    : formatHolders(data?.token?.holders)}
-</div>
+                <div className="small">Tokens deployed</div>
+                <div>{formatHolders(data.wallet?.tokens_deployed)}</div>
+
+                <div style={{ height: 8 }} />
+
+                <div className="small">Funded by</div>
+                <div style={{ wordBreak: "break-all" }}>
+                  {data.wallet?.funder_label ?? data.wallet?.funder ?? "—"}
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="small">Dev wallet</div>
+                <div style={{ wordBreak: "break-all" }}>{data?.dev?.address ?? "—"}</div>
+
+                {data?.dev_history && (
+                  <div className="small" style={{ opacity: 0.8 }}>
+                    History: {data.dev_history.launches_est} launch(es) • {data.dev_history.suspected_rugs} suspected rug(s)
+                  </div>
+                )}
+
+                <div style={{ height: 8 }} />
+
+                <div className="small">Token age</div>
+                <div>{formatAge(data?.token?.age_seconds)}</div>
+
+                <div style={{ height: 8 }} />
+
+                <div className="small">Holders</div>
+                <div>
+                  {holdersLoading
+                    ? (holdersSoFar !== null ? `Loading… (${holdersSoFar}+)` : "Loading…")
+                    : formatHolders(data?.token?.holders)}
+                </div>
+              </>
+            )}
 
 
             <div style={{ height: 10 }} />
@@ -742,6 +786,13 @@ if ((j?.chain || chain) === "sol" && type === "token" && j?.token?.address) {
               </div>
             </div>
 
+            {typeof data?.risk.coverage === "number" && (
+              <div className="small" style={{ opacity: 0.7, marginTop: 8 }}>
+                Checks ran: {Math.round(data.risk.coverage * 100)}%
+                {data.missing_checks?.length ? ` • missing: ${data.missing_checks.join(", ")}` : ""}
+              </div>
+            )}
+
             <div className="small" style={{ opacity: 0.6, marginTop: 8 }}>
               Info only — does not affect score
             </div>
@@ -781,11 +832,16 @@ if ((j?.chain || chain) === "sol" && type === "token" && j?.token?.address) {
               )}
 
               <div className="grid">
-                {WHY_GROUPS.map(group => (
+                {(data.input_type === "wallet" ? WALLET_WHY_GROUPS : WHY_GROUPS).map(group => {
+                  const cat = explanation.categories.find(c => c.category === group.category);
+                  return (
                   <div key={group.title} className="card" style={{ padding: 14 }}>
                     <div className="row" style={{ justifyContent: "space-between" }}>
                       <b>{group.title}</b>
-                      <span className="small">{group.cap}</span>
+                      <span className="small">
+                        {cat?.counted ?? 0} / {group.cap}
+                        {cat?.capped ? ` • capped (raw ${cat.raw})` : ""}
+                      </span>
                     </div>
 
                     <div style={{ height: 8 }} />
@@ -800,20 +856,21 @@ if ((j?.chain || chain) === "sol" && type === "token" && j?.token?.address) {
                       if (r.id === "TOP10_DYNAMIC") {
                         const v = resolveTop10();
                         triggered = Boolean(v);
-                        label = v ? `Top-10 token accounts > ${v.txt}` : "Top-10 token accounts > 40%";
-                        pts = v ? v.pts : 5;
+                        label = v ? `Top-10 holders (excl. LP/burn) > ${v.txt}` : "Top-10 holders (excl. LP/burn) > 40%";
+                        pts = v ? v.pts : modelPoints("TOP10_GT_40");
                         matchedSignal = v?.id ? findSig(v.id) : null;
                         isDeepRow = false;
                       } else if (r.id === "DEV_HOLDS_DYNAMIC") {
                         const v = resolveDevHolds();
                         triggered = Boolean(v);
                         label = v ? `Dev wallet holds > ${v.txt}` : "Dev wallet holds > 30%";
-                        pts = v ? v.pts : 10;
+                        pts = v ? v.pts : modelPoints("DEV_HOLDS_GT_30");
                         matchedSignal = v?.id ? findSig(v.id) : null;
                         isDeepRow = false;
                       } else {
                         matchedSignal = findSig(r.id);
                         triggered = Boolean(matchedSignal);
+                        if (matchedSignal) pts = matchedSignal.weight;
                       }
 
                       // loading placeholder for deep rows
@@ -825,7 +882,7 @@ if ((j?.chain || chain) === "sol" && type === "token" && j?.token?.address) {
                             <span className="small">{label}</span>
                             <span style={{ fontWeight: 800 }}>
   {triggered
-    ? `+${pts}`
+    ? `+${pts}${matchedSignal && explanation.deciding.includes(matchedSignal.id) ? " ★" : ""}`
     : showLoading
       ? "Loading…"
       : (r.id === "LP_NOT_BURNED" && mergedSignals?.some(s => s.id === "LP_STATUS_UNKNOWN"))
@@ -847,8 +904,28 @@ if ((j?.chain || chain) === "sol" && type === "token" && j?.token?.address) {
                       );
                     })}
                   </div>
-                ))}
+                  );
+                })}
               </div>
+
+              {(explanation.deciding.length > 0 || explanation.to_lower) && (
+                <>
+                  <hr />
+                  {explanation.deciding.length > 0 && (
+                    <div className="small">
+                      <b>★ Decided {explanation.level} by:</b> {explanation.deciding.map(signalLabel).join(" • ")}
+                      <span> (removing any one of these lowers the level)</span>
+                    </div>
+                  )}
+                  {explanation.to_lower && (
+                    <div className="small" style={{ marginTop: 6 }}>
+                      <b>To drop to {explanation.to_lower.level}:</b> without{" "}
+                      {explanation.to_lower.remove.map(signalLabel).join(" + ")} the score would be{" "}
+                      {explanation.to_lower.score} / 100
+                    </div>
+                  )}
+                </>
+              )}
             </div>
 
             {/* BOTTOM ROW: VERDICT / COMMUNITY / BREAKDOWN (as before) */}
@@ -857,7 +934,7 @@ if ((j?.chain || chain) === "sol" && type === "token" && j?.token?.address) {
               {/* VERDICT */}
               <div className="card">
                 {(() => {
-                  const vLevel = verdictFromScore(mergedScore);
+                  const vLevel = levelFromScore(mergedScore);
                   const v = VERDICT_COPY[vLevel];
 
                   const topSignals = pickSmartSignals({
@@ -993,22 +1070,23 @@ if ((j?.chain || chain) === "sol" && type === "token" && j?.token?.address) {
               <div className="card">
                 <div className="row" style={{ justifyContent: "space-between" }}>
                   <b>RISK BREAKDOWN</b>
-                  <span className="small">Max: 100</span>
+                  <span className="small">Max: 100 • Model v{data.model_version ?? RISK_MODEL.version}</span>
                 </div>
 
                 <hr />
 
                 {(() => {
-                  const b = sumByCategory(mergedSignals as any);
-                  const rows: { k: SignalCategory; v: number; cap: number }[] = (Object.keys(b) as SignalCategory[])
-                    .map(k => ({ k, v: Math.round(b[k]), cap: CATEGORY_CAP[k] }));
+                  const rows = explanation.categories.filter(c => c.cap > 0);
 
                   return (
                     <div style={{ display: "grid", gap: 10 }}>
                       {rows.map(r => (
-                        <div key={r.k} className="row" style={{ justifyContent: "space-between" }}>
-                          <span className="small">{r.k}</span>
-                          <b>{r.v} / {r.cap}</b>
+                        <div key={r.category} className="row" style={{ justifyContent: "space-between" }}>
+                          <span className="small">{r.label}</span>
+                          <span>
+                            {r.capped && <span className="small">raw {Math.round(r.raw)} → </span>}
+                            <b>{Math.round(r.counted)} / {r.cap}</b>
+                          </span>
                         </div>
                       ))}
                     </div>
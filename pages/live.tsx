@@ -0,0 +1,193 @@
+import { useEffect, useMemo, useState } from "react";
+import { explorerTx } from "../lib/explorer";
+
+/* ================= Types ================= */
+
+type Level = "LOW" | "MEDIUM" | "HIGH";
+
+type LaunchItem = {
+  signature: string;
+  source: "pumpfun" | "raydium_amm" | "raydium_cpmm" | "pumpswap";
+  slot: number;
+  seen_at: number;
+  mint: string | null;
+  status: "resolving" | "queued" | "scoring" | "scored" | "dropped" | "error";
+  score?: number;
+  level?: Level;
+  name?: string;
+  symbol?: string;
+  top_signals?: { id: string; label: string; weight: number }[];
+  error?: string;
+};
+
+type FeedStatus = { running: boolean; seen: number; scored: number; dropped: number; errors: number; queued: number };
+
+/* ================= UI helpers ================= */
+
+const MAX_ROWS = 200;
+
+const SOURCE_LABEL: Record<LaunchItem["source"], string> = {
+  pumpfun: "pump.fun",
+  raydium_amm: "Raydium AMM",
+  raydium_cpmm: "Raydium CPMM",
+  pumpswap: "PumpSwap",
+};
+
+function RiskBadge({ level }: { level: string }) {
+  const emoji = level === "HIGH" ? "🔴" : level === "MEDIUM" ? "🟡" : "🟢";
+  return <span className="badge">{emoji} {level}</span>;
+}
+
+function ago(ts: number, now: number) {
+  const s = Math.max(0, Math.floor((now - ts) / 1000));
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m`;
+  return `${Math.floor(s / 3600)}h`;
+}
+
+function statusText(i: LaunchItem) {
+  if (i.status === "resolving") return "Resolving mint…";
+  if (i.status === "queued") return "Queued";
+  if (i.status === "scoring") return "Scoring…";
+  if (i.status === "dropped") return "Skipped (queue full)";
+  if (i.status === "error") return i.error || "Error";
+  return "";
+}
+
+/* ================= Page ================= */
+
+export default function LivePage() {
+  const [items, setItems] = useState<LaunchItem[]>([]);
+  const [status, setStatus] = useState<FeedStatus | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [levels, setLevels] = useState<Level[]>([]); // empty = all
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const es = new EventSource("/api/live");
+    const on = (event: string, fn: (j: any) => void) =>
+      es.addEventListener(event, (e) => {
+        try {
+          fn(JSON.parse((e as MessageEvent).data));
+        } catch {}
+      });
+
+    es.onopen = () => setConnected(true);
+    es.onerror = () => setConnected(false); // EventSource reconnects by itself; a new snapshot follows
+
+    on("snapshot", (j) => {
+      setItems(Array.isArray(j?.items) ? j.items : []);
+      setStatus(j?.status ?? null);
+    });
+    on("status", setStatus);
+    on("launch", (item: LaunchItem) => {
+      setItems((prev) => {
+        const i = prev.findIndex((x) => x.signature === item.signature);
+        if (i < 0) return [item, ...prev].slice(0, MAX_ROWS);
+        const next = prev.slice();
+        next[i] = item;
+        return next;
+      });
+    });
+
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      clearInterval(tick);
+      es.close();
+    };
+  }, []);
+
+  // level filter applies to scored rows; in-progress rows are shown while "All" is selected
+  const visible = useMemo(
+    () => items.filter((i) => (levels.length ? !!i.level && levels.includes(i.level) : true)),
+    [items, levels]
+  );
+
+  function toggle(l: Level) {
+    setLevels((prev) => (prev.includes(l) ? prev.filter((x) => x !== l) : [...prev, l]));
+  }
+
+  return (
+    <>
+      <div className="nav">
+        <div className="wrap nav-inner">
+          <div className="brand">
+            <a href="/" style={{ textDecoration: "none" }}>
+              PUMP<span className="grad">.GUARD</span>
+            </a>{" "}
+            <span className="small">Live launches</span>
+          </div>
+          <div className="small">
+            {connected ? "🟢 Live" : "⚪ Connecting…"}
+            {status ? ` • seen ${status.seen} • scored ${status.scored} • queued ${status.queued}` : ""}
+          </div>
+        </div>
+      </div>
+
+      <main className="wrap" style={{ padding: "22px 0 40px" }}>
+        <div className="card">
+          <h1 style={{ margin: "0 0 8px" }}>New launches, scored as they happen</h1>
+          <div className="small">
+            pump.fun creates, Raydium pool initializations and PumpSwap pools — each new mint gets a base score automatically.
+          </div>
+          <div style={{ height: 12 }} />
+          <div className="row">
+            <button className={`btn ${levels.length === 0 ? "btn-primary" : ""}`} onClick={() => setLevels([])}>
+              All
+            </button>
+            {(["HIGH", "MEDIUM", "LOW"] as Level[]).map((l) => (
+              <button key={l} className={`btn ${levels.includes(l) ? "btn-primary" : ""}`} onClick={() => toggle(l)}>
+                {l}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div style={{ height: 14 }} />
+
+        {visible.length === 0 && (
+          <div className="card small">
+            {items.length ? "No launches match this filter yet." : "Waiting for new launches…"}
+          </div>
+        )}
+
+        {visible.map((i) => (
+          <div key={i.signature} style={{ marginBottom: 10 }}>
+            <div className="card">
+              <div className="row" style={{ justifyContent: "space-between" }}>
+                <div style={{ minWidth: 0 }}>
+                  <div style={{ fontWeight: 900 }}>
+                    {i.name || i.symbol ? `${i.name ?? ""}${i.symbol ? ` (${i.symbol})` : ""}` : "New token"}
+                  </div>
+                  <div className="small" style={{ wordBreak: "break-all" }}>
+                    {i.mint ? <a href={`/r/sol/${i.mint}`}>{i.mint}</a> : "—"}
+                  </div>
+                  <div className="small">
+                    {SOURCE_LABEL[i.source]} • {ago(i.seen_at, now)} ago •{" "}
+                    <a href={explorerTx("sol", i.signature)} target="_blank" rel="noreferrer">
+                      tx
+                    </a>
+                  </div>
+                </div>
+                {i.status === "scored" && i.level ? (
+                  <div style={{ textAlign: "right" }}>
+                    <div style={{ fontWeight: 900, fontSize: 22 }}>{i.score} / 100</div>
+                    <RiskBadge level={i.level} />
+                  </div>
+                ) : (
+                  <div className="small">{statusText(i)}</div>
+                )}
+              </div>
+
+              {!!i.top_signals?.length && (
+                <div className="small" style={{ marginTop: 8 }}>
+                  {i.top_signals.map((s) => `${s.label} (+${s.weight})`).join(" • ")}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </main>
+    </>
+  );
+}
@@ -1,6 +1,8 @@
 import { useRouter } from "next/router";
 import { useEffect, useMemo, useState } from "react";
-import type { ScoreResponse } from "../../../lib/types";
+import type { DevHistory, ScoreResponse, Signal, TopHolder } from "../../../lib/types";
+import { explorerAddress, explorerTx } from "../../../lib/explorer";
+import { explainScore, RISK_MODEL, type ScoreExplanation } from "../../../lib/risk";
 
 /* ================= UI helpers ================= */
 
@@ -9,6 +11,102 @@ function RiskBadge({ level }: { level: string }) {
   return <span className="badge">{emoji} {level}</span>;
 }
 
+function formatAge(sec?: number) {
+  if (!sec && sec !== 0) return "—";
+  if (sec < 3600) return `${Math.max(1, Math.floor(sec / 60))}m`;
+  const h = Math.floor(sec / 3600);
+  if (h < 48) return `${h}h`;
+  return `${Math.floor(h / 24)}d`;
+}
+
+function devHistorySummary(h: DevHistory): string {
+  if (!h.launches_est) return "No other launches found for this dev.";
+  const parts = [`${h.launches_est} launch(es)`];
+  if (h.candidate_mints_checked) {
+    parts.push(`${h.early_dump_count}/${h.candidate_mints_checked} early dumps`);
+    parts.push(`${h.died_lt_24h} died <24h`);
+    parts.push(`${h.suspected_rugs} suspected rugs`);
+  }
+  if (h.median_first_out_min !== null) parts.push(`median first sell ${Math.round(h.median_first_out_min)}m`);
+  return parts.join(" • ");
+}
+
+function holderTagLabel(h: TopHolder): string {
+  if (h.tag === "LP") return h.lp_source === "PDA" ? "LP (PDA)" : h.lp_label ? `LP (${h.lp_label})` : "LP";
+  return h.tag ?? "UNKNOWN";
+}
+
+// concentration heat: per-holder share
+function heatColor(pct: number): string {
+  if (pct >= 10) return "#FF5C5C";
+  if (pct >= 5) return "#FF8A1E";
+  if (pct >= 2) return "#FFD34D";
+  return "inherit";
+}
+
+/* ================= History chart ================= */
+
+type HistoryPoint = {
+  id: string;
+  kind: "score" | "deep";
+  ts: number;
+  score: number | null;
+  level: "LOW" | "MEDIUM" | "HIGH" | null;
+  added: string[];
+  removed: string[];
+};
+
+function levelColor(level: string | null): string {
+  if (level === "HIGH") return "#FF5C5C";
+  if (level === "MEDIUM") return "#FFD34D";
+  return "#4CFF7A";
+}
+
+function changeText(p: HistoryPoint): string {
+  return [...p.added.map((id) => `+${id}`), ...p.removed.map((id) => `−${id}`)].join(" ");
+}
+
+// score line (dots colored by level) + dashed markers where signals appeared / disappeared
+function HistoryChart({ points }: { points: HistoryPoint[] }) {
+  const W = 600;
+  const H = 160;
+  const PAD = 12;
+
+  const scored = points.filter((p) => p.kind === "score" && typeof p.score === "number");
+  const t0 = points[0].ts;
+  const t1 = points[points.length - 1].ts;
+  const x = (ts: number) => (t1 > t0 ? PAD + ((ts - t0) / (t1 - t0)) * (W - 2 * PAD) : W / 2);
+  const y = (score: number) => H - PAD - (score / 100) * (H - 2 * PAD);
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} style={{ width: "100%", height: "auto", display: "block" }}>
+      {[30, 60].map((lvl) => (
+        <line key={lvl} x1={PAD} x2={W - PAD} y1={y(lvl)} y2={y(lvl)} stroke="rgba(255,255,255,0.10)" />
+      ))}
+      {points
+        .filter((p) => p.added.length || p.removed.length)
+        .map((p) => (
+          <line key={`m-${p.id}`} x1={x(p.ts)} x2={x(p.ts)} y1={PAD} y2={H - PAD} stroke="#FF8A1E" strokeDasharray="3 3">
+            <title>{`${new Date(p.ts).toLocaleString()} (${p.kind}): ${changeText(p)}`}</title>
+          </line>
+        ))}
+      {scored.length > 1 && (
+        <polyline
+          fill="none"
+          stroke="#B7BACB"
+          strokeWidth={2}
+          points={scored.map((p) => `${x(p.ts)},${y(p.score!)}`).join(" ")}
+        />
+      )}
+      {scored.map((p) => (
+        <circle key={p.id} cx={x(p.ts)} cy={y(p.score!)} r={4} fill={levelColor(p.level)}>
+          <title>{`${new Date(p.ts).toLocaleString()}: ${p.score} (${p.level})`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
 type FlagsResp = {
   rugged: number;
   sus: number;
@@ -18,32 +116,15 @@ type FlagsResp = {
   error?: string;
 };
 
-function categorizeSignalId(
-  id: string
-): "PERMISSIONS" | "DISTRIBUTION" | "DEV_BEHAVIOR" | "CONTEXT" | "OTHER" {
-  if (id.includes("MINT_AUTHORITY") || id.includes("FREEZE_AUTHORITY")) return "PERMISSIONS";
-  if (id.startsWith("TOP10_") || id.startsWith("DEV_TOP_HOLDER")) return "DISTRIBUTION";
-  if (id.startsWith("DEV_EARLY_") || id.startsWith("HELIUS_")) return "DEV_BEHAVIOR";
-  if (id.startsWith("TOKEN_AGE") || id.startsWith("DEV_CANDIDATE") || id === "DEV_UNKNOWN") return "CONTEXT";
-  return "OTHER";
-}
-
-function sumByCategory(signals: { id: string; weight: number }[]) {
-  const buckets: Record<string, number> = {
-    PERMISSIONS: 0,
-    DISTRIBUTION: 0,
-    DEV_BEHAVIOR: 0,
-    CONTEXT: 0,
-    OTHER: 0,
-  };
-  for (const s of signals) {
-    buckets[categorizeSignalId(s.id)] += s.weight || 0;
-  }
-  return buckets;
+// the server's explanation; recomputed (same function) for responses without one or mid-stream merges
+function explanationOf(data: ScoreResponse): ScoreExplanation {
+  return data.explanation ?? explainScore(data.signals);
 }
 
 /* ================= Page ================= */
 
+const DEEP_CHECKS = 7; // deep_check events per SOL token (see /api/score/stream)
+
 export default function ResultPage() {
   const router = useRouter();
   const { chain, address, type } = router.query as {
@@ -55,39 +136,122 @@ export default function ResultPage() {
   const [data, setData] = useState<ScoreResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
+  const [history, setHistory] = useState<HistoryPoint[]>([]);
+  const [progress, setProgress] = useState<{ checks: number; holders: number | null } | null>(null);
 
   const inputType: "token" | "wallet" =
     type === "wallet" ? "wallet" : "token";
 
-  const apiUrl = useMemo(() => {
+  const streamUrl = useMemo(() => {
     if (!chain || !address) return "";
     const qs = new URLSearchParams({
       chain,
       input: address,
       type: inputType,
     });
-    return `/api/score?${qs.toString()}`;
+    return `/api/score/stream?${qs.toString()}`;
   }, [chain, address, inputType]);
 
   /* ---------- load data ---------- */
 
+  function loadHistory() {
+    if (!chain || !address) return;
+    const qs = new URLSearchParams({ chain, address, type: inputType, days: "30" });
+    fetch(`/api/history?${qs.toString()}`)
+      .then(r => r.json())
+      .then(j => setHistory(Array.isArray(j?.points) ? j.points : []))
+      .catch(() => {});
+  }
+
+  // one SSE stream: base score first, then deep checks / holder count as they finish, then the final score
   useEffect(() => {
-    if (!apiUrl) return;
-    (async () => {
-      setLoading(true);
-      setError("");
+    if (!streamUrl) return;
+    setLoading(true);
+    setError("");
+    setData(null);
+    setProgress(null);
+
+    const es = new EventSource(streamUrl);
+    let finished = false;
+    const finish = () => {
+      finished = true;
+      es.close();
+      setLoading(false);
+      setProgress(null);
+    };
+    const on = (event: string, fn: (j: any) => void) =>
+      es.addEventListener(event, (e) => {
+        try {
+          fn(JSON.parse((e as MessageEvent).data));
+        } catch {}
+      });
+    const mergeSignals = (incoming: Signal[]) =>
+      setData(prev => {
+        if (!prev) return prev;
+        const byId = new Map<string, Signal>();
+        prev.signals.forEach(s => byId.set(s.id, s));
+        incoming.forEach(s => byId.set(s.id, s));
+        return { ...prev, signals: Array.from(byId.values()), explanation: undefined }; // stale until "final"
+      });
+
+    on("base", (j) => {
+      setData(j.response);
+      setLoading(false);
+      if (j.response?.chain === "sol" && inputType === "token") setProgress({ checks: 0, holders: null });
+      loadHistory();
+    });
+
+    on("deep_check", (j) => {
+      if (Array.isArray(j?.signals)) mergeSignals(j.signals);
+      setProgress(p => (p ? { ...p, checks: p.checks + 1 } : p));
+    });
+
+    on("deep", (j) => {
+      const d = j?.deep;
+      if (Array.isArray(d?.signals)) mergeSignals(d.signals);
+      setData(prev =>
+        prev
+          ? {
+              ...prev,
+              dev_history: d?.dev_history ?? prev.dev_history,
+              funding_clusters: Array.isArray(d?.funding_clusters) ? d.funding_clusters : prev.funding_clusters,
+              launchpad: d?.launchpad ?? prev.launchpad,
+            }
+          : prev
+      );
+      setProgress(p => (p ? { ...p, checks: DEEP_CHECKS } : p));
+    });
+
+    on("holders", (j) => {
+      const n = j?.status === "done" ? j.holders : j?.holders_so_far;
+      if (Number.isFinite(n)) setProgress(p => (p ? { ...p, holders: n } : p));
+    });
+
+    // authoritative merged result (capped score, holder count)
+    on("final", (j) => {
+      if (j?.response) setData(j.response);
+      loadHistory();
+    });
+
+    on("done", finish);
+
+    // server-sent `error` carries data; a bare `error` is the connection dropping (EventSource would reconnect)
+    es.addEventListener("error", (e) => {
+      if (finished) return;
+      let msg = "Stream interrupted";
       try {
-        const res = await fetch(apiUrl);
-        const j = await res.json();
-        if (!res.ok) throw new Error(j?.error || "Failed");
-        setData(j);
-      } catch (e: any) {
-        setError(e?.message || "Failed");
-      } finally {
-        setLoading(false);
-      }
-    })();
-  }, [apiUrl]);
+        msg = JSON.parse((e as MessageEvent).data)?.error || msg;
+      } catch {}
+      setError(msg);
+      finish();
+    });
+
+    return () => {
+      finished = true;
+      es.close();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [streamUrl]);
 
   /* ================= render ================= */
 
@@ -149,12 +313,244 @@ export default function ResultPage() {
                   </div>
                   <div className="small">
                     Confidence: {data.risk.confidence} • Mode: {data.risk.mode}
+                    {typeof data.risk.coverage === "number" ? ` • Checks ran: ${Math.round(data.risk.coverage * 100)}%` : ""}
                   </div>
+                  {data.missing_checks?.length ? (
+                    <div className="small" style={{ opacity: 0.7 }}>
+                      Missing checks:{" "}
+                      {(data.checks ?? [])
+                        .filter((c) => c.status !== "ok")
+                        .map((c) => `${c.id} (${c.status}${c.detail ? `: ${c.detail}` : ""})`)
+                        .join(", ")}
+                    </div>
+                  ) : null}
+                  {progress && (
+                    <div className="small">
+                      Updating… deep checks {progress.checks}/{DEEP_CHECKS}
+                      {progress.holders !== null ? ` • holders ${progress.holders.toLocaleString()}+` : ""}
+                    </div>
+                  )}
                 </div>
                 <RiskBadge level={data.risk.level} />
               </div>
             </div>
 
+            {/* score history */}
+            {history.length > 0 && (
+              <>
+                <div style={{ height: 14 }} />
+                <div className="card">
+                  <div style={{ fontWeight: 900, fontSize: 18 }}>
+                    Score history (30d)
+                  </div>
+                  <hr />
+                  {history.some(p => p.kind === "score") ? (
+                    <HistoryChart points={history} />
+                  ) : (
+                    <div className="small">No scored snapshots yet.</div>
+                  )}
+                  <div className="small" style={{ marginTop: 6 }}>
+                    {history.filter(p => p.kind === "score").length} check(s) • dashed lines: signals appeared / disappeared
+                  </div>
+                  {history
+                    .filter(p => p.added.length || p.removed.length)
+                    .slice(-8)
+                    .reverse()
+                    .map(p => (
+                      <div key={`c-${p.id}`} className="small" style={{ marginTop: 6, wordBreak: "break-word" }}>
+                        {new Date(p.ts).toLocaleString()}
+                        {p.kind === "deep" ? " (deep)" : p.level ? ` • ${p.level}` : ""} • {changeText(p)}
+                      </div>
+                    ))}
+                </div>
+              </>
+            )}
+
+            {/* wallet profile */}
+            {data.input_type === "wallet" && data.wallet && (
+              <>
+                <div style={{ height: 14 }} />
+                <div className="card">
+                  <div style={{ fontWeight: 900, fontSize: 18 }}>
+                    Wallet profile
+                  </div>
+                  <hr />
+                  <div className="row" style={{ justifyContent: "space-between" }}>
+                    <span className="small">Wallet age</span>
+                    <b>{formatAge(data.wallet.age_seconds)}</b>
+                  </div>
+                  <div className="row" style={{ justifyContent: "space-between" }}>
+                    <span className="small">Tokens deployed</span>
+                    <b>{data.wallet.tokens_deployed ?? "—"}</b>
+                  </div>
+                  {typeof data.wallet.tx_count === "number" && (
+                    <div className="row" style={{ justifyContent: "space-between" }}>
+                      <span className="small">Transactions</span>
+                      <b>{data.wallet.tx_count}</b>
+                    </div>
+                  )}
+                  <div className="row" style={{ justifyContent: "space-between" }}>
+                    <span className="small">Funded by</span>
+                    <b style={{ wordBreak: "break-all" }}>
+                      {data.wallet.funder_label
+                        ? `${data.wallet.funder_label} (exchange)`
+                        : data.wallet.funder ?? "—"}
+                    </b>
+                  </div>
+                  <div className="row" style={{ justifyContent: "space-between" }}>
+                    <span className="small">Community flags</span>
+                    <b>
+                      🔴 {data.community?.rugged ?? 0} • 🟡 {data.community?.sus ?? 0} • 🟢{" "}
+                      {data.community?.trusted ?? 0}
+                    </b>
+                  </div>
+                </div>
+              </>
+            )}
+
+            {/* top holders */}
+            {(data.token?.top_holders?.length ?? 0) > 0 && (
+              <>
+                <div style={{ height: 14 }} />
+                <div className="card">
+                  <div className="row" style={{ justifyContent: "space-between" }}>
+                    <div style={{ fontWeight: 900, fontSize: 18 }}>Top holders</div>
+                    <span className="small">
+                      Top-10: {typeof data.token?.top10_percent === "number" ? `${data.token.top10_percent.toFixed(1)}%` : "—"}
+                    </span>
+                  </div>
+                  {data.token?.concentration && (
+                    <div className="small" style={{ marginTop: 6 }}>
+                      Adjusted top-10 (excl. LP / burn / programs):{" "}
+                      <b>{data.token.concentration.top10_adjusted_percent.toFixed(1)}%</b> • Top-20 sample: Gini{" "}
+                      <b>{data.token.concentration.gini !== null ? data.token.concentration.gini.toFixed(2) : "—"}</b> • HHI{" "}
+                      <b>{data.token.concentration.hhi}</b> • Nakamoto{" "}
+                      <b>{data.token.concentration.nakamoto ?? `>${data.token.concentration.sample_size}`}</b> • &gt;1% wallets{" "}
+                      <b>{data.token.concentration.holders_gt_1pct}</b>
+                    </div>
+                  )}
+                  <hr />
+                  <div style={{ display: "grid", gap: 6 }}>
+                    {data.token!.top_holders!.map((h) => (
+                      <div key={h.token_account} className="row" style={{ justifyContent: "space-between" }}>
+                        <span className="small">
+                          #{h.rank}{" "}
+                          <a href={explorerAddress(data.chain, h.owner)} target="_blank" rel="noreferrer">
+                            {h.owner ? `${h.owner.slice(0, 4)}…${h.owner.slice(-4)}` : "—"}
+                          </a>{" "}
+                          <span className="badge" style={{ padding: "2px 8px" }}>{holderTagLabel(h)}</span>
+                        </span>
+                        <b style={{ color: heatColor(h.percent) }}>{h.percent.toFixed(2)}%</b>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+
+            {/* dev history */}
+            {data.dev_history && (
+              <>
+                <div style={{ height: 14 }} />
+                <div className="card">
+                  <div style={{ fontWeight: 900, fontSize: 18 }}>
+                    Developer history
+                  </div>
+                  <hr />
+                  <div>{devHistorySummary(data.dev_history)}</div>
+                  <div className="small" style={{ marginTop: 6 }}>
+                    Early dump rate: {(data.dev_history.early_dump_rate * 100).toFixed(0)}% • Heuristic, based on up to{" "}
+                    {data.dev_history.candidate_mints_checked} checked mints.
+                  </div>
+                </div>
+              </>
+            )}
+
+            {/* launchpad curve */}
+            {data.launchpad && (
+              <>
+                <div style={{ height: 14 }} />
+                <div className="card">
+                  <div style={{ fontWeight: 900, fontSize: 18 }}>
+                    {data.launchpad.launchpad} bonding curve
+                  </div>
+                  <hr />
+                  <div>
+                    {data.launchpad.complete ? (
+                      <b>Completed / migrated</b>
+                    ) : (
+                      <>
+                        Progress <b>{data.launchpad.progress_pct !== null ? `${data.launchpad.progress_pct.toFixed(1)}%` : "—"}</b>
+                      </>
+                    )}{" "}
+                    • Reserves <b>{data.launchpad.quote_reserve.toFixed(2)} {data.launchpad.quote_symbol}</b>
+                  </div>
+                  {data.launchpad.dev_initial_buy && (
+                    <div className="small" style={{ marginTop: 6 }}>
+                      Creator bought{" "}
+                      <b>
+                        {data.launchpad.dev_initial_buy.pct !== null
+                          ? `${data.launchpad.dev_initial_buy.pct.toFixed(1)}%`
+                          : Math.round(data.launchpad.dev_initial_buy.ui_amount).toLocaleString()}
+                      </b>{" "}
+                      of supply in the{" "}
+                      <a href={explorerTx("sol", data.launchpad.dev_initial_buy.sig)} target="_blank" rel="noreferrer">
+                        create tx
+                      </a>
+                      .
+                    </div>
+                  )}
+                  <div className="small" style={{ marginTop: 6 }}>
+                    <a href={explorerAddress("sol", data.launchpad.curve)} target="_blank" rel="noreferrer">
+                      Curve account
+                    </a>{" "}
+                    • excluded from holder concentration.
+                  </div>
+                </div>
+              </>
+            )}
+
+            {/* funding clusters */}
+            {!!data.funding_clusters?.length && (
+              <>
+                <div style={{ height: 14 }} />
+                <div className="card">
+                  <div style={{ fontWeight: 900, fontSize: 18 }}>
+                    Early buyer funding clusters
+                  </div>
+                  <hr />
+                  {data.funding_clusters.slice(0, 5).map((c, i) => (
+                    <div key={i} style={{ marginBottom: 10 }}>
+                      <div>
+                        <b>{c.wallets.length} wallets</b>
+                        {c.supply_pct !== null && <> • hold <b>{c.supply_pct.toFixed(2)}%</b> of supply</>}
+                      </div>
+                      <div className="small">
+                        Shared funder:{" "}
+                        {c.shared_ancestors.length
+                          ? c.shared_ancestors.slice(0, 2).map((a, j) => (
+                              <a key={a} href={explorerAddress("sol", a)} target="_blank" rel="noreferrer">
+                                {j ? ", " : ""}
+                                {a.slice(0, 4)}…{a.slice(-4)}
+                              </a>
+                            ))
+                          : "direct (buyer funded buyer)"}
+                        {c.proof_sigs.map((sig, j) => (
+                          <span key={sig}>
+                            {" "}•{" "}
+                            <a href={explorerTx("sol", sig)} target="_blank" rel="noreferrer">
+                              tx {j + 1}
+                            </a>
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                  <div className="small">Heuristic: SOL funding traced up to 3 hops; exchange hot wallets excluded.</div>
+                </div>
+              </>
+            )}
+
             {/* breakdown */}
             <div style={{ height: 14 }} />
             <div className="card">
@@ -162,12 +558,16 @@ export default function ResultPage() {
                 Risk breakdown
               </div>
               <hr />
-              {Object.entries(sumByCategory(data.signals)).map(([k, v]) => (
-                <div key={k} className="row">
-                  <span>{k}</span>
-                  <b>{Math.round(v)}</b>
+              {explanationOf(data).categories.filter(c => c.cap > 0).map((c) => (
+                <div key={c.category} className="row" style={{ justifyContent: "space-between" }}>
+                  <span>{c.label}</span>
+                  <span>
+                    {c.capped && <span className="small">raw {Math.round(c.raw)} → </span>}
+                    <b>{Math.round(c.counted)} / {c.cap}</b>
+                  </span>
                 </div>
               ))}
+              <div className="small">Model v{data.model_version ?? RISK_MODEL.version}</div>
             </div>
 
             {/* signals */}
@@ -188,6 +588,7 @@ export default function ResultPage() {
                     <div className="small">
                       Weight: <b>{s.weight}</b>
                       {s.value ? ` • ${s.value}` : ""}
+                      {explanationOf(data).deciding.includes(s.id) ? " • ★ decides the level" : ""}
                     </div>
                     {Array.isArray(s.proof) && s.proof.length > 0 && (
                       <div className="small">
@@ -203,6 +604,27 @@ export default function ResultPage() {
                   </div>
                 ))}
               </div>
+              {(() => {
+                const x = explanationOf(data);
+                const label = (id: string) => data.signals.find(s => s.id === id)?.label || id;
+                if (!x.deciding.length && !x.to_lower) return null;
+                return (
+                  <>
+                    <hr />
+                    {x.deciding.length > 0 && (
+                      <div className="small">
+                        <b>★ Decided {x.level} by:</b> {x.deciding.map(label).join(" • ")}
+                      </div>
+                    )}
+                    {x.to_lower && (
+                      <div className="small">
+                        <b>To drop to {x.to_lower.level}:</b> without {x.to_lower.remove.map(label).join(" + ")} the
+                        score would be {x.to_lower.score} / 100
+                      </div>
+                    )}
+                  </>
+                );
+              })()}
             </div>
           </>
         )}